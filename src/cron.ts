@@ -0,0 +1,61 @@
+import { DateTime } from 'luxon'
+
+export interface CronFields {
+  minute: Set<number>
+  hour: Set<number>
+  day: Set<number>
+  month: Set<number>
+  weekday: Set<number>
+  /** 日与周同时被限制时按 cron 惯例取并集 */
+  dayRestricted: boolean
+  weekdayRestricted: boolean
+}
+
+const RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]]
+// 最多向前查找一年，避免 2 月 30 日这类永远不会触发的表达式陷入死循环
+const MAX_LOOKBACK_DAYS = 366
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> | undefined {
+  const values = new Set<number>()
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) return
+    const start = match[1] === '*' ? min : Number(match[2])
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start
+    const step = match[4] ? Number(match[4]) : 1
+    if (start < min || end > max || start > end || step < 1) return
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+/** 解析 5 段 cron 表达式（分 时 日 月 周），支持 *、列表、范围与步长，周日可写作 0 或 7 */
+export function parseCron(expr: string): CronFields | undefined {
+  const parts = expr.trim().split(/\s+/)
+  if (parts.length !== 5) return
+  const fields = parts.map((part, index) => parseField(part, RANGES[index]))
+  if (fields.some(f => !f)) return
+  const [minute, hour, day, month, weekday] = fields as Set<number>[]
+  if (weekday.has(7)) weekday.add(0)
+  return { minute, hour, day, month, weekday, dayRestricted: parts[2] !== '*', weekdayRestricted: parts[4] !== '*' }
+}
+
+function matchesDate(fields: CronFields, time: DateTime) {
+  if (!fields.month.has(time.month)) return false
+  const day = fields.day.has(time.day)
+  const weekday = fields.weekday.has(time.weekday % 7)
+  if (fields.dayRestricted && fields.weekdayRestricted) return day || weekday
+  return day && weekday
+}
+
+/** 不晚于 time 的最近一次触发时间 */
+export function getPreviousRun(fields: CronFields, time: DateTime): DateTime | undefined {
+  const limit = time.minus({ days: MAX_LOOKBACK_DAYS })
+  let cursor = time.startOf('minute')
+  while (cursor > limit) {
+    if (!matchesDate(fields, cursor)) cursor = cursor.startOf('day').minus({ minutes: 1 })
+    else if (!fields.hour.has(cursor.hour)) cursor = cursor.startOf('hour').minus({ minutes: 1 })
+    else if (!fields.minute.has(cursor.minute)) cursor = cursor.minus({ minutes: 1 })
+    else return cursor
+  }
+}
@@ -1,9 +1,21 @@
+import { PlayerSummary } from './service'
+
 export interface SteamBind {
   id: number
   userId: string
   channelId: string
   steamId: string
   nickname?: string
+  label?: string
+  isDefault?: boolean
+  verified?: boolean
+  verifyCode?: string
+}
+
+export interface SteamOptin {
+  id: number
+  userId: string
+  channelId: string
 }
 
 export interface SteamChannel {
@@ -13,11 +25,137 @@ export interface SteamChannel {
   avatar?: string
   platform?: string
   assignee?: string
+  stopBroadcast?: boolean | null
+  requireVerify?: boolean | null
+  language?: string | null
+  startBroadcastType?: string | null
+  enablePushDelay?: boolean | null
+  replaceWallpaperEmoji?: boolean | null
+  rejoinDebounce?: number | null
+  quietHours?: string | null
+  timezone?: string | null
+  gameBlacklist?: string[] | null
+  gameWhitelist?: string[] | null
+  achievementBroadcast?: boolean | null
+  achievementRarity?: number | null
+  theme?: string | null
+  failCount?: number
+  lastError?: string
+  /** 周报的 cron 表达式，留空表示不发送 */
+  reportSchedule?: string
+  reportSentAt?: Date
+}
+
+export interface PlayMeta {
+  lastLeftAt?: number
+  lastLeftGame?: string
+}
+
+export interface SteamStatus {
+  steamId: string
+  summary: PlayerSummary
+  meta: PlayMeta
+  lastSeenAt: Date
+}
+
+export interface SteamSession {
+  id: number
+  steamId: string
+  appid: string
+  gameName: string
+  startedAt: Date
+  endedAt?: Date
+}
+
+export interface SteamPending {
+  id: number
+  channelId: string
+  message: string
+  createdAt: Date
+}
+
+export interface SteamApp {
+  appid: string
+  language: string
+  name: string
+  type?: string
+  headerImage?: string
+  capsuleImage?: string
+  genres?: string[]
+  fetchedAt: Date
+}
+
+export interface SteamAchievement {
+  steamId: string
+  appid: string
+  apiname: string
+  unlockedAt: Date
+}
+
+export interface OwnedGame {
+  appid: number
+  name: string
+  /** 总游戏时长（分钟） */
+  playtime: number
+}
+
+export interface SteamLibrary {
+  steamId: string
+  games: OwnedGame[]
+  fetchedAt: Date
+}
+
+export interface SteamWatch {
+  id: number
+  channelId: string
+  appid: string
+  createdAt: Date
+}
+
+export interface SteamPrice {
+  appid: string
+  region: string
+  currency: string
+  /** 价格单位均为分 */
+  initial: number
+  final: number
+  discount: number
+  formatted: string
+  /** 插件记录到的史低价 */
+  lowest: number
+  lowestAt: Date
+  checkedAt: Date
+}
+
+export interface SteamNewsSubscription {
+  id: number
+  channelId: string
+  appid: string
+  createdAt: Date
+}
+
+export interface SteamNews {
+  appid: string
+  lastGid: string
+  /** 最后一条已推送新闻的发布时间 */
+  lastDate: Date
+  checkedAt: Date
 }
 
 declare module 'koishi' {
   interface Tables {
     steam_bind: SteamBind
     steam_channel: SteamChannel
+    steam_optin: SteamOptin
+    steam_status: SteamStatus
+    steam_session: SteamSession
+    steam_pending: SteamPending
+    steam_app: SteamApp
+    steam_achievement: SteamAchievement
+    steam_library: SteamLibrary
+    steam_watch: SteamWatch
+    steam_price: SteamPrice
+    steam_news_subscription: SteamNewsSubscription
+    steam_news: SteamNews
   }
-}
\ No newline at end of file
+}
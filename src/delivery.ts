@@ -0,0 +1,115 @@
+import { Bot, Context, Logger, Universal, h } from 'koishi'
+import { SteamChannel } from './database'
+import { getErrorStatus } from './keys'
+
+const logger = new Logger('steam-info')
+// bot 是否在群内的检查结果缓存时长
+const MEMBERSHIP_TTL = 30 * 60 * 1000
+
+export interface DeliveryOptions {
+  /** 同一个 bot 两次发送之间的最小间隔（毫秒） */
+  interval: number
+  /** 单个 bot 发送失败时的重试次数 */
+  retries: number
+  /** 连续失败多少次后将群标记为投递失败 */
+  failThreshold: number
+}
+
+/** 网络错误、限流和服务端错误可以重试，其余 4xx 换个 bot 或下次再发 */
+function isTransient(error: any) {
+  const status = getErrorStatus(error)
+  return status === undefined || status === 429 || status >= 500
+}
+
+export class DeliveryQueue {
+  private queues = new Map<string, Promise<unknown>>()
+  private lastSentAt = new Map<string, number>()
+  private membership = new Map<string, { joined: boolean; checkedAt: number }>()
+
+  constructor(private ctx: Context, private options: DeliveryOptions) { }
+
+  /** 依次尝试可用的 bot 发送消息，全部失败时返回 false 并累计群的失败次数 */
+  async send(channel: SteamChannel, content: h.Fragment): Promise<boolean> {
+    let lastError: any
+    for await (const bot of this.getCandidates(channel)) {
+      for (let attempt = 0; attempt <= this.options.retries; attempt++) {
+        try {
+          await this.enqueue(bot, () => bot.sendMessage(channel.id, content))
+          await this.markResult(channel, true)
+          return true
+        } catch (e) {
+          lastError = e
+          logger.warn(`deliver to ${channel.id} via ${bot.sid} failed (attempt ${attempt + 1}): ${e}`)
+          // 权限不足、群不存在等错误重试也不会成功，直接换下一个 bot
+          if (!isTransient(e)) break
+          if (attempt < this.options.retries) await new Promise(res => setTimeout(res, (attempt + 1) * 2000))
+        }
+      }
+    }
+    if (lastError) await this.markResult(channel, false, String(lastError))
+    else await this.markResult(channel, false, channel.platform || this.resolvePlatform(channel) ? 'No available bot' : 'Unknown platform')
+    return false
+  }
+
+  /** 先给出负责该群的 bot，只有它不可用或发送失败后才逐个检查其他 bot 是否在群内 */
+  private async *getCandidates(channel: SteamChannel): AsyncGenerator<Bot> {
+    const online = this.ctx.bots.filter(bot => bot.status === Universal.Status.ONLINE)
+    // 平台未知时不能随便挑一个 bot 发送，群号在不同平台之间并不通用
+    const platform = channel.platform || this.resolvePlatform(channel)
+    if (!platform) return
+
+    const assignee = online.find(bot => bot.platform === platform && bot.selfId === channel.assignee)
+    if (assignee) yield assignee
+    for (const bot of online) {
+      if (bot === assignee || bot.platform !== platform) continue
+      // 只有确实在该群内的 bot 才能接替发送
+      if (await this.isJoined(bot, channel.id)) yield bot
+    }
+  }
+
+  /** 旧数据可能没有记录平台，只能通过负责该群的 bot 推断 */
+  private resolvePlatform(channel: SteamChannel): string | undefined {
+    if (!channel.assignee) return
+    const platforms = new Set(this.ctx.bots.filter(bot => bot.selfId === channel.assignee).map(bot => bot.platform))
+    if (platforms.size === 1) return [...platforms][0]
+  }
+
+  private async isJoined(bot: Bot, channelId: string): Promise<boolean> {
+    const key = `${bot.sid}:${channelId}`
+    const cached = this.membership.get(key)
+    if (cached && Date.now() - cached.checkedAt < MEMBERSHIP_TTL) return cached.joined
+    const joined = await this.enqueue(bot, () => bot.getChannel(channelId)).then(() => true, () => false)
+    this.membership.set(key, { joined, checkedAt: Date.now() })
+    return joined
+  }
+
+  private enqueue<T>(bot: Bot, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(bot.sid) || Promise.resolve()
+    const next = previous.catch(() => { }).then(async () => {
+      const wait = (this.lastSentAt.get(bot.sid) || 0) + this.options.interval - Date.now()
+      if (wait > 0) await new Promise(res => setTimeout(res, wait))
+      try {
+        return await task()
+      } finally {
+        this.lastSentAt.set(bot.sid, Date.now())
+      }
+    })
+    this.queues.set(bot.sid, next)
+    return next
+  }
+
+  private async markResult(channel: SteamChannel, ok: boolean, error?: string) {
+    if (ok) {
+      if (channel.failCount) {
+        channel.failCount = 0
+        await this.ctx.database.set('steam_channel', channel.id, { failCount: 0, lastError: '' })
+      }
+      return
+    }
+    channel.failCount = (channel.failCount || 0) + 1
+    if (channel.failCount === this.options.failThreshold) {
+      logger.warn(`channel ${channel.id} failed ${channel.failCount} deliveries in a row and is marked as failing`)
+    }
+    await this.ctx.database.set('steam_channel', channel.id, { failCount: channel.failCount, lastError: error })
+  }
+}
@@ -1,7 +1,10 @@
-import { Context, Service } from 'koishi'
+import { Context, Service, Logger, h } from 'koishi'
 import { Config } from './index'
-import { SteamBind } from './database'
-import { PlayerSummary, SteamProfile } from './service'
+import { SteamBind, SteamApp } from './database'
+import { PlayerSummary, SteamProfile, AchievementUnlock, PriceOverview, NewsItem } from './service'
+import { formatDuration, getDisplayName, translate, getGameAliases, applyGameAlias, Language } from './utils'
+import { getThemeCss, Theme } from './themes'
+import { DateTime } from 'luxon'
 import { resolve } from 'path'
 import { readFileSync } from 'fs'
 
@@ -9,19 +12,56 @@ declare module 'koishi' {
   interface Context { puppeteer: any }
 }
 
-const PERSONA_STATES = ['离线', '在线', '忙碌', '离开', '打盹', '寻求交易', '寻求游戏']
+const logger = new Logger('steam-info')
+// 连续渲染失败后暂时改用文字输出的时长
+const RENDER_DOWNGRADE_MS = 10 * 60 * 1000
+
+export interface PlaytimeRank {
+  steamId: string
+  name: string
+  avatar: string
+  total: number
+  games: { name: string; duration: number }[]
+}
+
+export interface WeeklyReport {
+  members: PlaytimeRank[]
+  games: { appid: string; name: string; duration: number; players: number }[]
+  longest?: { name: string; game: string; duration: number }
+  newGames: { name: string; game: string }[]
+}
+
+export interface CommonGame {
+  appid: number
+  name: string
+  /** 与 players 顺序对应的游戏时长（分钟） */
+  playtimes: number[]
+}
 
 export class DrawService extends Service {
   private fontCss: string | null = null
+  private idlePages: any[] = []
+  private activeRenders = 0
+  private waiters: (() => void)[] = []
+  private renderFailures = 0
+  private downgradedUntil = 0
 
   constructor(ctx: Context, public config: Config) {
     super(ctx, 'drawer')
+    ctx.on('dispose', () => {
+      for (const page of this.idlePages.splice(0)) page.close().catch(() => { })
+    })
+  }
+
+  /** puppeteer 未安装或近期连续渲染失败时，所有图片改为文字输出 */
+  get canRender() {
+    return !!this.ctx.puppeteer && Date.now() >= this.downgradedUntil
   }
 
   private getFontCss(): string {
     if (this.fontCss) return this.fontCss
 
-    let css = `body { font-family: 'MiSans', sans-serif; margin: 0; padding: 0; background-color: #1e2024; color: #fff; }`
+    let css = `body { font-family: 'MiSans', sans-serif; margin: 0; padding: 0; background-color: var(--bg); color: var(--fg); }`
     const loadFont = (path: string, weight: string) => {
       try {
         const base64 = readFileSync(resolve(this.ctx.baseDir, path)).toString('base64')
@@ -49,37 +89,187 @@ export class DrawService extends Service {
     return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;')
   }
 
-  private async render(html: string, selector = 'body'): Promise<Buffer> {
-    const page = await this.ctx.puppeteer.page()
+  private async getGameArt(player: PlayerSummary, lang: Language, type: 'header' | 'capsule'): Promise<string> {
+    if (!player.gameid || !this.canRender) return ''
+    try {
+      const app = await this.ctx.steam.getAppInfo(player.gameid, lang)
+      return (type === 'header' ? app?.headerImage : app?.capsuleImage || app?.headerImage) || ''
+    } catch {
+      return ''
+    }
+  }
+
+  /** 读取 templateDir 下的自定义模板，不存在时使用内置样式 */
+  private loadTemplate(name: string): string | undefined {
+    if (!this.config.templateDir) return
+    try {
+      return readFileSync(resolve(this.ctx.baseDir, this.config.templateDir, `${name}.html`), 'utf8')
+    } catch { }
+  }
+
+  private renderTemplate(template: string, values: Record<string, string>, theme: Theme, text: string[]): Promise<Buffer | string> {
+    const html = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, key) => key === 'style' ? this.getFontCss() : values[key] ?? '')
+    return this.render(html, 'body', theme, text)
+  }
+
+  private async acquirePage(): Promise<any> {
+    while (this.activeRenders >= this.config.renderConcurrency) {
+      await new Promise<void>(res => this.waiters.push(res))
+    }
+    this.activeRenders++
+    try {
+      return this.idlePages.pop() || await this.ctx.puppeteer.page()
+    } catch (e) {
+      this.releasePage()
+      throw e
+    }
+  }
+
+  private releasePage(page?: any, reusable = false) {
+    if (page) {
+      if (reusable && this.idlePages.length < this.config.renderConcurrency) this.idlePages.push(page)
+      else page.close().catch(() => { })
+    }
+    this.activeRenders--
+    this.waiters.shift()?.()
+  }
+
+  /** 渲染为图片，无法渲染时返回 text 拼成的文字 */
+  private async render(html: string, selector: string, theme: Theme, text: string[]): Promise<Buffer | string> {
+    const fallback = h.escape(text.filter(Boolean).join('\n'))
+    if (!this.canRender) return fallback
+
+    const themeStyle = `<style>${getThemeCss(theme)}</style>`
+    let page: any
+    let reusable = false
+    let timer: NodeJS.Timeout | undefined
     try {
-      await page.setContent(html)
-      const element = await page.$(selector)
-      if (!element) throw new Error('渲染失败：找不到目标元素')
-      return await element.screenshot({ type: 'png' })
+      page = await this.acquirePage()
+      const task = (async () => {
+        await page.setContent(html.includes('</head>') ? html.replace('</head>', `${themeStyle}</head>`) : themeStyle + html)
+        const element = await page.$(selector)
+        if (!element) throw new Error('渲染失败：找不到目标元素')
+        return await element.screenshot({ type: 'png' }) as Buffer
+      })()
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`渲染超时（${this.config.renderTimeout}ms）`)), this.config.renderTimeout)
+      })
+      const image = await Promise.race([task, timeout])
+      reusable = true
+      this.renderFailures = 0
+      return image
+    } catch (e) {
+      this.renderFailures++
+      logger.warn(`render failed (${this.renderFailures} in a row): ${e}`)
+      if (this.renderFailures >= this.config.renderFailThreshold) {
+        this.downgradedUntil = Date.now() + RENDER_DOWNGRADE_MS
+        this.renderFailures = 0
+        logger.warn(`too many render failures, falling back to text for ${RENDER_DOWNGRADE_MS / 60000} minutes`)
+      }
+      return fallback
     } finally {
-      await page.close().catch(() => { })
+      clearTimeout(timer)
+      // 超时或出错的页面状态不确定，直接关闭
+      if (page) this.releasePage(page, reusable)
     }
   }
 
-  async drawStartGaming(player: PlayerSummary, nickname?: string): Promise<Buffer | string> {
+  async drawStartGaming(player: PlayerSummary, nickname?: string, lang: Language = this.config.language, aliases = getGameAliases(this.config, lang), theme: Theme = this.config.theme): Promise<Buffer | string> {
     const name = nickname || player.personaname
-    let game = player.gameextrainfo || 'Unknown Game'
-    let status = '正在玩'
+    const alias = applyGameAlias(aliases, player.gameid, player.gameextrainfo || translate(lang, 'drawer.unknown_game'))
+    const game = alias.name
+    const status = alias.verb || translate(lang, 'drawer.playing')
+    const art = await this.getGameArt(player, lang, 'header')
+    const text = [name, `${status} ${game}`]
 
-    if (this.config.replaceWallpaperEmoji && (game === 'Wallpaper Engine' || String(player.gameid) === '431960')) {
-      status = '正在🛫'
-      game = '(Wallpaper Engine)'
+    const template = this.loadTemplate('start-gaming')
+    if (template) {
+      return this.renderTemplate(template, {
+        name: this.escape(name),
+        status: this.escape(status),
+        game: this.escape(game),
+        avatar: player.avatarfull,
+        art,
+      }, theme, text)
     }
 
     return this.render(`
       <html><head><style>
         ${this.getFontCss()}
-        .container { width: 400px; height: 100px; display: flex; align-items: center; background-color: #1e2024; padding: 15px; box-sizing: border-box; }
+        .container { width: ${art ? 560 : 400}px; height: 100px; display: flex; align-items: center; background-color: var(--bg); padding: 15px; box-sizing: border-box; }
         .avatar { width: 66px; height: 66px; margin-right: 20px; border-radius: 4px; }
+        .info { display: flex; flex-direction: column; justify-content: center; flex: 1; min-width: 0; }
+        .art { height: 70px; margin-left: 12px; border-radius: 4px; }
+        .name { font-size: 19px; color: var(--name); margin-bottom: 4px; }
+        .status { font-size: 17px; color: var(--muted); margin-bottom: 4px; }
+        .game { font-size: 14px; font-weight: bold; color: var(--game); }
+      </style></head><body>
+        <div class="container">
+          <img class="avatar" src="${player.avatarfull}" />
+          <div class="info">
+            <div class="name">${this.escape(name)}</div>
+            <div class="status">${this.escape(status)}</div>
+            <div class="game">${this.escape(game)}</div>
+          </div>
+          ${art ? `<img class="art" src="${art}" />` : ''}
+        </div>
+      </body></html>
+    `, '.container', theme, text)
+  }
+
+  async drawParty(players: PlayerSummary[], names: string[], lang: Language = this.config.language, aliases = getGameAliases(this.config, lang), theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const game = applyGameAlias(aliases, players[0].gameid, players[0].gameextrainfo || translate(lang, 'drawer.unknown_game')).name
+    const art = await this.getGameArt(players[0], lang, 'header')
+    const membersHtml = players.map((player, index) => `
+      <div class="member">
+        <img class="avatar" src="${player.avatarmedium || player.avatar}" />
+        <div class="name">${this.escape(names[index])}</div>
+      </div>
+    `).join('')
+    const text = [`${translate(lang, 'drawer.playing_together', [players.length])} ${game}`, names.join(translate(lang, 'broadcast.name_separator'))]
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        .container { width: 460px; background-color: var(--bg); padding: 15px; box-sizing: border-box; }
+        .header { display: flex; align-items: center; margin-bottom: 12px; }
+        .art { height: 60px; margin-right: 14px; border-radius: 4px; }
+        .status { font-size: 15px; color: var(--muted); margin-bottom: 4px; }
+        .game { font-size: 18px; font-weight: bold; color: var(--game); }
+        .members { display: flex; flex-wrap: wrap; gap: 10px; }
+        .member { width: 78px; display: flex; flex-direction: column; align-items: center; }
+        .avatar { width: 54px; height: 54px; border-radius: 4px; margin-bottom: 4px; }
+        .name { font-size: 13px; color: var(--name); max-width: 78px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      </style></head><body>
+        <div class="container">
+          <div class="header">
+            ${art ? `<img class="art" src="${art}" />` : ''}
+            <div>
+              <div class="status">${this.escape(translate(lang, 'drawer.playing_together', [players.length]))}</div>
+              <div class="game">${this.escape(game)}</div>
+            </div>
+          </div>
+          <div class="members">${membersHtml}</div>
+        </div>
+      </body></html>
+    `, '.container', theme, text)
+  }
+
+  async drawStopGaming(player: PlayerSummary, duration?: number, nickname?: string, lang: Language = this.config.language, aliases = getGameAliases(this.config, lang), theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const name = nickname || player.personaname
+    const game = applyGameAlias(aliases, player.gameid, player.gameextrainfo || translate(lang, 'drawer.unknown_game')).name
+    const status = duration !== undefined ? translate(lang, 'drawer.played_for', [formatDuration(duration, lang)]) : translate(lang, 'drawer.stopped')
+    const text = [name, game, status]
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        .container { width: 400px; height: 100px; display: flex; align-items: center; background-color: var(--bg); padding: 15px; box-sizing: border-box; }
+        .avatar { width: 66px; height: 66px; margin-right: 20px; border-radius: 4px; filter: grayscale(100%); opacity: 0.8; }
         .info { display: flex; flex-direction: column; justify-content: center; }
-        .name { font-size: 19px; color: #e3ffc2; margin-bottom: 4px; }
-        .status { font-size: 17px; color: #969696; margin-bottom: 4px; }
-        .game { font-size: 14px; font-weight: bold; color: #91c257; }
+        .name { font-size: 19px; color: var(--text); margin-bottom: 4px; }
+        .status { font-size: 17px; color: var(--muted); margin-bottom: 4px; }
+        .game { font-size: 14px; font-weight: bold; color: var(--offline); }
       </style></head><body>
         <div class="container">
           <img class="avatar" src="${player.avatarfull}" />
@@ -90,36 +280,138 @@ export class DrawService extends Service {
           </div>
         </div>
       </body></html>
-    `, '.container')
+    `, '.container', theme, text)
+  }
+
+  async drawAchievement(player: PlayerSummary, achievement: AchievementUnlock, gameName: string, nickname?: string, lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const name = nickname || player.personaname
+    const rarity = achievement.percent !== undefined ? translate(lang, 'drawer.achievement_rarity', [achievement.percent.toFixed(1)]) : ''
+    const text = [translate(lang, 'drawer.achievement_unlocked', [name, gameName]), achievement.name, achievement.description, rarity]
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        .container { width: 460px; display: flex; align-items: center; background-color: var(--bg); padding: 15px; box-sizing: border-box; }
+        .icon { width: 64px; height: 64px; margin-right: 16px; border-radius: 4px; }
+        .info { display: flex; flex-direction: column; justify-content: center; flex: 1; min-width: 0; }
+        .title { font-size: 14px; color: var(--muted); margin-bottom: 4px; }
+        .name { font-size: 18px; font-weight: bold; color: var(--name); margin-bottom: 4px; }
+        .desc { font-size: 13px; color: var(--text-secondary); margin-bottom: 4px; }
+        .meta { font-size: 13px; color: var(--game); }
+        .avatar { width: 40px; height: 40px; margin-left: 12px; border-radius: 4px; }
+      </style></head><body>
+        <div class="container">
+          ${achievement.icon ? `<img class="icon" src="${achievement.icon}" />` : ''}
+          <div class="info">
+            <div class="title">${this.escape(translate(lang, 'drawer.achievement_unlocked', [name, gameName]))}</div>
+            <div class="name">${this.escape(achievement.name)}</div>
+            ${achievement.description ? `<div class="desc">${this.escape(achievement.description)}</div>` : ''}
+            ${rarity ? `<div class="meta">${this.escape(rarity)}</div>` : ''}
+          </div>
+          <img class="avatar" src="${player.avatarmedium || player.avatar}" />
+        </div>
+      </body></html>
+    `, '.container', theme, text)
+  }
+
+  async drawPriceAlert(app: SteamApp, price: PriceOverview, historicalLow: boolean, lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const title = translate(lang, historicalLow ? 'drawer.price_historical_low' : 'drawer.price_on_sale')
+    const original = price.initial_formatted ? translate(lang, 'drawer.price_original', [price.initial_formatted]) : ''
+    const text = [`${title} ${app.name}`, `${price.final_formatted} (-${price.discount_percent}%) ${original}`.trim(), `https://store.steampowered.com/app/${app.appid}`]
+    const image = app.headerImage || `https://cdn.cloudflare.steamstatic.com/steam/apps/${app.appid}/header.jpg`
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        .container { width: 460px; background-color: var(--bg); box-sizing: border-box; }
+        .header-img { width: 460px; height: 215px; display: block; }
+        .body { display: flex; align-items: center; padding: 12px 15px; }
+        .info { flex: 1; min-width: 0; display: flex; flex-direction: column; }
+        .title { font-size: 14px; color: var(--muted); margin-bottom: 4px; }
+        .name { font-size: 18px; font-weight: bold; color: var(--name); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .discount { font-size: 24px; font-weight: bold; color: #beee11; background-color: #4c6b22; padding: 4px 8px; margin-left: 12px; }
+        .prices { display: flex; flex-direction: column; align-items: flex-end; margin-left: 8px; }
+        .original { font-size: 13px; color: var(--muted); text-decoration: line-through; }
+        .final { font-size: 18px; color: var(--game); }
+      </style></head><body>
+        <div class="container">
+          <img class="header-img" src="${image}" />
+          <div class="body">
+            <div class="info">
+              <div class="title">${this.escape(title)}</div>
+              <div class="name">${this.escape(app.name)}</div>
+            </div>
+            <div class="discount">-${price.discount_percent}%</div>
+            <div class="prices">
+              ${price.initial_formatted ? `<div class="original">${this.escape(price.initial_formatted)}</div>` : ''}
+              <div class="final">${this.escape(price.final_formatted)}</div>
+            </div>
+          </div>
+        </div>
+      </body></html>
+    `, '.container', theme, text)
+  }
+
+  async drawNews(app: SteamApp, news: NewsItem, lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const date = DateTime.fromMillis(news.date).setLocale(lang).toLocaleString(DateTime.DATE_MED)
+    const meta = [app.name, news.feedlabel, date].filter(Boolean).join(' · ')
+    const text = [translate(lang, 'broadcast.news_title', [app.name, news.title]), news.contents, news.url]
+    const image = app.headerImage || `https://cdn.cloudflare.steamstatic.com/steam/apps/${app.appid}/header.jpg`
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        .container { width: 460px; background-color: var(--bg); box-sizing: border-box; }
+        .header-img { width: 460px; height: 215px; display: block; }
+        .body { padding: 12px 15px 15px; }
+        .meta { font-size: 13px; color: var(--muted); margin-bottom: 6px; }
+        .title { font-size: 18px; font-weight: bold; color: var(--name); margin-bottom: 8px; }
+        .summary { font-size: 14px; line-height: 1.5; color: var(--text-secondary); word-break: break-word; }
+      </style></head><body>
+        <div class="container">
+          <img class="header-img" src="${image}" />
+          <div class="body">
+            <div class="meta">${this.escape(meta)}</div>
+            <div class="title">${this.escape(news.title)}</div>
+            ${news.contents ? `<div class="summary">${this.escape(news.contents)}</div>` : ''}
+          </div>
+        </div>
+      </body></html>
+    `, '.container', theme, text)
   }
 
-  async drawFriendsStatus(parentAvatar: Buffer | string, parentName: string, players: PlayerSummary[], binds: SteamBind[]): Promise<Buffer | string> {
+  async drawFriendsStatus(parentAvatar: Buffer | string, parentName: string, players: PlayerSummary[], binds: SteamBind[], lang: Language = this.config.language, aliases = getGameAliases(this.config, lang), theme: Theme = this.config.theme): Promise<Buffer | string> {
     const sorted = [...players].sort((a, b) => this.getOrder(a) - this.getOrder(b))
 
     const groups = [
-      { title: '游戏中', items: sorted.filter(p => p.gameextrainfo) },
-      { title: '在线好友', items: sorted.filter(p => !p.gameextrainfo && p.personastate !== 0) },
-      { title: '离线', items: sorted.filter(p => p.personastate === 0) }
+      { title: translate(lang, 'drawer.in_game'), items: sorted.filter(p => p.gameextrainfo) },
+      { title: translate(lang, 'drawer.online_friends'), items: sorted.filter(p => !p.gameextrainfo && p.personastate !== 0) },
+      { title: translate(lang, 'drawer.offline'), items: sorted.filter(p => p.personastate === 0) }
     ].filter(g => g.items.length)
 
     let listHtml = ''
+    const text = [parentName]
     for (const { title, items } of groups) {
       listHtml += `<div class="group-title">${title} (${items.length})</div>`
+      text.push(`【${title} (${items.length})】`)
       for (const player of items) {
         const bind = binds.find(b => b.steamId === player.steamid)
-        const name = this.escape(bind?.nickname || player.personaname)
+        const displayName = getDisplayName(bind, player, binds)
+        const name = this.escape(displayName)
         const avatar = player.avatarmedium || player.avatar
+        const art = player.gameextrainfo ? await this.getGameArt(player, lang, 'capsule') : ''
 
         let statusText: string, color: string
         if (player.gameextrainfo) {
-          statusText = this.escape(player.gameextrainfo)
-          color = '#91c257'
+          statusText = applyGameAlias(aliases, player.gameid, player.gameextrainfo).name
+          color = 'var(--game)'
         } else if (player.personastate !== 0) {
-          statusText = PERSONA_STATES[player.personastate] || '未知'
-          color = '#6dcff6'
+          statusText = translate(lang, `persona_states.${player.personastate}`)
+          if (statusText.startsWith('persona_states.')) statusText = translate(lang, 'drawer.unknown_state')
+          color = 'var(--online)'
         } else {
-          statusText = '离线'
-          color = '#656565'
+          statusText = translate(lang, 'drawer.offline')
+          color = 'var(--offline)'
         }
 
         listHtml += `
@@ -127,30 +419,44 @@ export class DrawService extends Service {
             <img class="friend-avatar" src="${avatar}" />
             <div class="friend-info">
               <div class="friend-name" style="color: ${color}">${name}</div>
-              <div class="friend-status" style="color: ${color}">${statusText}</div>
+              <div class="friend-status" style="color: ${color}">${this.escape(statusText)}</div>
             </div>
+            ${art ? `<img class="friend-game" src="${art}" />` : ''}
           </div>
         `
+        text.push(`${displayName}：${statusText}`)
       }
     }
 
+    const template = this.loadTemplate('friends-status')
+    if (template) {
+      return this.renderTemplate(template, {
+        parentAvatar: this.toBase64(parentAvatar),
+        parentName: this.escape(parentName),
+        status: translate(lang, 'drawer.online'),
+        title: translate(lang, 'drawer.friends'),
+        list: listHtml,
+      }, theme, text)
+    }
+
     return this.render(`
       <html><head><style>
         ${this.getFontCss()}
-        body { width: 400px; background-color: #1e2024; }
-        .main { background-color: #1e2024; }
-        .header { padding: 16px; display: flex; align-items: center; height: 120px; box-sizing: border-box; background: linear-gradient(to bottom, #2b2e34 0%, #1e2024 100%); }
+        body { width: 400px; background-color: var(--bg); }
+        .main { background-color: var(--bg); }
+        .header { padding: 16px; display: flex; align-items: center; height: 120px; box-sizing: border-box; background: linear-gradient(to bottom, var(--bg-alt) 0%, var(--bg) 100%); }
         .parent-avatar { width: 72px; height: 72px; border-radius: 4px; margin-right: 16px; }
         .parent-info { display: flex; flex-direction: column; }
-        .parent-name { font-size: 20px; font-weight: bold; color: #6dcff6; margin-bottom: 4px; }
-        .parent-status { font-size: 18px; color: #4c91ac; }
-        .search-bar { height: 50px; background-color: #434953; display: flex; align-items: center; padding-left: 24px; color: #b7ccd5; font-size: 20px; }
+        .parent-name { font-size: 20px; font-weight: bold; color: var(--online); margin-bottom: 4px; }
+        .parent-status { font-size: 18px; color: var(--online-muted); }
+        .search-bar { height: 50px; background-color: var(--bar); display: flex; align-items: center; padding-left: 24px; color: var(--text-secondary); font-size: 20px; }
         .list-container { padding: 16px 0; }
-        .group-title { color: #c5d6d4; font-size: 22px; margin: 10px 22px; }
+        .group-title { color: var(--text); font-size: 22px; margin: 10px 22px; }
         .friend-item { display: flex; align-items: center; height: 64px; padding: 0 22px; }
-        .friend-item:hover { background-color: #3d4450; }
+        .friend-item:hover { background-color: var(--hover); }
         .friend-avatar { width: 50px; height: 50px; border-radius: 4px; margin-right: 16px; }
-        .friend-info { display: flex; flex-direction: column; }
+        .friend-info { display: flex; flex-direction: column; flex: 1; min-width: 0; }
+        .friend-game { height: 40px; border-radius: 3px; margin-left: 12px; }
         .friend-name { font-size: 18px; font-weight: bold; margin-bottom: 4px; }
         .friend-status { font-size: 16px; }
       </style></head><body>
@@ -159,50 +465,79 @@ export class DrawService extends Service {
             <img class="parent-avatar" src="${this.toBase64(parentAvatar)}" />
             <div class="parent-info">
               <div class="parent-name">${this.escape(parentName)}</div>
-              <div class="parent-status">在线</div>
+              <div class="parent-status">${translate(lang, 'drawer.online')}</div>
             </div>
           </div>
-          <div class="search-bar">好友</div>
+          <div class="search-bar">${translate(lang, 'drawer.friends')}</div>
           <div class="list-container">${listHtml}</div>
         </div>
       </body></html>
-    `, 'body')
+    `, 'body', theme, text)
   }
 
-  async drawPlayerStatus(profile: SteamProfile, steamId: string): Promise<Buffer | string> {
+  async drawPlayerStatus(profile: SteamProfile, steamId: string, lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
     const gamesHtml = profile.game_data.map(game => `
       <div class="game-row">
         <img class="game-img" src="${this.toBase64(game.game_image)}" />
         <div class="game-info">
           <div class="game-name">${this.escape(game.game_name)}</div>
           <div class="game-stats">
-            <span class="play-time">${game.play_time ? `总时数 ${game.play_time} 小时` : ''}</span>
-            <span class="last-played">${this.escape(game.last_played)}</span>
+            <span class="play-time">${game.play_time ? this.escape(translate(lang, 'drawer.play_time', [game.play_time])) : ''}</span>
+            <span class="last-played">${this.escape(game.last_played ? translate(lang, 'drawer.last_played', [game.last_played]) : translate(lang, 'drawer.currently_playing'))}</span>
           </div>
         </div>
       </div>
     `).join('')
 
+    const text = [
+      profile.player_name,
+      `ID: ${steamId}`,
+      this.getProfileStats(profile, lang),
+      profile.description,
+      `${translate(lang, 'drawer.recent_games')} ${profile.recent_2_week_play_time || ''}`,
+      ...profile.game_data.map(game => [
+        game.game_name,
+        game.play_time ? translate(lang, 'drawer.play_time', [game.play_time]) : '',
+        game.last_played ? translate(lang, 'drawer.last_played', [game.last_played]) : translate(lang, 'drawer.currently_playing'),
+      ].filter(Boolean).join('  ')),
+    ]
+
+    const template = this.loadTemplate('player-status')
+    if (template) {
+      return this.renderTemplate(template, {
+        name: this.escape(profile.player_name),
+        steamId,
+        avatar: this.toBase64(profile.avatar),
+        background: this.toBase64(profile.background),
+        description: this.escape(profile.description),
+        stats: this.escape(this.getProfileStats(profile, lang)),
+        recentTitle: translate(lang, 'drawer.recent_games'),
+        recentPlaytime: this.escape(profile.recent_2_week_play_time || ''),
+        games: gamesHtml,
+      }, theme, text)
+    }
+
     return this.render(`
       <html><head><style>
         ${this.getFontCss()}
-        body { width: 960px; background-color: #1b2838; position: relative; }
+        body { width: 960px; background-color: var(--bg); position: relative; }
         .bg-container { position: fixed; top: 0; left: 0; width: 100%; height: 100%; z-index: -1; background-image: url('${this.toBase64(profile.background)}'); background-size: cover; background-position: center; }
-        .bg-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; z-index: -1; background-color: rgba(0, 0, 0, 0.7); }
+        .bg-overlay { position: fixed; top: 0; left: 0; width: 100%; height: 100%; z-index: -1; background-color: var(--bg); opacity: 0.75; }
         .content { padding: 40px; z-index: 1; }
         .header { display: flex; align-items: flex-start; margin-bottom: 40px; }
-        .profile-avatar { width: 200px; height: 200px; border: 3px solid #53a4c4; margin-right: 40px; }
+        .profile-avatar { width: 200px; height: 200px; border: 3px solid var(--online); margin-right: 40px; }
         .profile-info { flex: 1; }
-        .profile-name { font-size: 40px; color: white; margin-bottom: 10px; }
-        .profile-id { font-size: 20px; color: #bfbfbf; margin-bottom: 20px; }
-        .profile-desc { font-size: 22px; color: #bfbfbf; white-space: pre-wrap; max-width: 640px; }
+        .profile-name { font-size: 40px; color: var(--fg); margin-bottom: 10px; }
+        .profile-id { font-size: 20px; color: var(--text-secondary); margin-bottom: 10px; }
+        .profile-stats { font-size: 20px; color: var(--online); margin-bottom: 20px; }
+        .profile-desc { font-size: 22px; color: var(--text-secondary); white-space: pre-wrap; max-width: 640px; }
         .games-section { margin-top: 20px; }
-        .recent-header { background-color: rgba(0, 0, 0, 0.5); padding: 10px 20px; display: flex; justify-content: space-between; color: white; font-size: 26px; margin-bottom: 10px; }
-        .game-row { background-color: rgba(0, 0, 0, 0.3); height: 100px; display: flex; align-items: center; padding: 10px 20px; margin-bottom: 10px; }
+        .recent-header { background-color: color-mix(in srgb, var(--bar) 70%, transparent); padding: 10px 20px; display: flex; justify-content: space-between; color: var(--fg); font-size: 26px; margin-bottom: 10px; }
+        .game-row { background-color: color-mix(in srgb, var(--bg-alt) 60%, transparent); height: 100px; display: flex; align-items: center; padding: 10px 20px; margin-bottom: 10px; }
         .game-img { width: 184px; height: 69px; margin-right: 20px; }
         .game-info { flex: 1; display: flex; flex-direction: column; justify-content: center; }
-        .game-name { font-size: 26px; color: white; margin-bottom: 8px; }
-        .game-stats { font-size: 20px; color: #969696; display: flex; gap: 20px; }
+        .game-name { font-size: 26px; color: var(--fg); margin-bottom: 8px; }
+        .game-stats { font-size: 20px; color: var(--muted); display: flex; gap: 20px; }
       </style></head><body>
         <div class="bg-container"></div>
         <div class="bg-overlay"></div>
@@ -212,23 +547,213 @@ export class DrawService extends Service {
             <div class="profile-info">
               <div class="profile-name">${this.escape(profile.player_name)}</div>
               <div class="profile-id">ID: ${steamId}</div>
+              <div class="profile-stats">${this.escape(this.getProfileStats(profile, lang))}</div>
               <div class="profile-desc">${this.escape(profile.description)}</div>
             </div>
           </div>
           <div class="games-section">
             <div class="recent-header">
-              <span>最近游戏</span>
+              <span>${translate(lang, 'drawer.recent_games')}</span>
               <span>${profile.recent_2_week_play_time || ''}</span>
             </div>
             ${gamesHtml}
           </div>
         </div>
       </body></html>
-    `, 'body')
+    `, 'body', theme, text)
+  }
+
+  async drawPlaytimeStats(title: string, ranks: PlaytimeRank[], lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const gameTotals = new Map<string, number>()
+    for (const rank of ranks) {
+      for (const game of rank.games) gameTotals.set(game.name, (gameTotals.get(game.name) || 0) + game.duration)
+    }
+    const topGames = [...gameTotals.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5)
+
+    const ranksHtml = ranks.map((rank, index) => `
+      <div class="rank-item">
+        <div class="rank-index">${index + 1}</div>
+        <img class="rank-avatar" src="${rank.avatar}" />
+        <div class="rank-info">
+          <div class="rank-name">${this.escape(rank.name)}</div>
+          <div class="rank-games">${rank.games.slice(0, 3).map(g => `${this.escape(g.name)} ${formatDuration(g.duration, lang)}`).join(' / ')}</div>
+        </div>
+        <div class="rank-total">${formatDuration(rank.total, lang)}</div>
+      </div>
+    `).join('')
+
+    const gamesHtml = topGames.map(([name, duration]) => `
+      <div class="game-item">
+        <span class="game-name">${this.escape(name)}</span>
+        <span class="game-total">${formatDuration(duration, lang)}</span>
+      </div>
+    `).join('')
+
+    const text = [
+      title,
+      `【${translate(lang, 'drawer.playtime_ranking')}】`,
+      ...ranks.map((rank, index) => `${index + 1}. ${rank.name} ${formatDuration(rank.total, lang)}`),
+      `【${translate(lang, 'drawer.top_games')}】`,
+      ...topGames.map(([name, duration]) => `${name} ${formatDuration(duration, lang)}`),
+    ]
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        body { width: 480px; background-color: var(--bg); }
+        .header { padding: 20px 22px; font-size: 22px; font-weight: bold; color: var(--online); background: linear-gradient(to bottom, var(--bg-alt) 0%, var(--bg) 100%); }
+        .section-title { height: 44px; background-color: var(--bar); display: flex; align-items: center; padding-left: 22px; color: var(--text-secondary); font-size: 18px; }
+        .list-container { padding: 10px 0; }
+        .rank-item { display: flex; align-items: center; min-height: 64px; padding: 4px 22px; }
+        .rank-index { width: 28px; font-size: 20px; font-weight: bold; color: var(--text); }
+        .rank-avatar { width: 50px; height: 50px; border-radius: 4px; margin-right: 14px; }
+        .rank-info { flex: 1; display: flex; flex-direction: column; overflow: hidden; }
+        .rank-name { font-size: 18px; font-weight: bold; color: var(--name); margin-bottom: 4px; }
+        .rank-games { font-size: 14px; color: var(--muted); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .rank-total { font-size: 17px; color: var(--game); margin-left: 12px; white-space: nowrap; }
+        .game-item { display: flex; justify-content: space-between; padding: 8px 22px; font-size: 16px; }
+        .game-name { color: var(--text); }
+        .game-total { color: var(--game); }
+      </style></head><body>
+        <div class="header">${this.escape(title)}</div>
+        <div class="section-title">${translate(lang, 'drawer.playtime_ranking')}</div>
+        <div class="list-container">${ranksHtml}</div>
+        <div class="section-title">${translate(lang, 'drawer.top_games')}</div>
+        <div class="list-container">${gamesHtml}</div>
+      </body></html>
+    `, 'body', theme, text)
+  }
+
+  async drawReport(title: string, report: WeeklyReport, lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const total = report.members.reduce((sum, m) => sum + m.total, 0)
+    const summary = translate(lang, 'drawer.report_summary', [report.members.length, formatDuration(total, lang)])
+    const topGames = report.games.slice(0, 5)
+    const longest = report.longest && translate(lang, 'drawer.report_longest_session', [report.longest.name, report.longest.game, formatDuration(report.longest.duration, lang)])
+
+    const membersHtml = report.members.map((member, index) => `
+      <div class="rank-item">
+        <div class="rank-index">${index + 1}</div>
+        <img class="rank-avatar" src="${member.avatar}" />
+        <div class="rank-info">
+          <div class="rank-name">${this.escape(member.name)}</div>
+          <div class="rank-games">${member.games.slice(0, 3).map(g => this.escape(g.name)).join(' / ')}</div>
+        </div>
+        <div class="rank-total">${formatDuration(member.total, lang)}</div>
+      </div>
+    `).join('')
+
+    const gamesHtml = topGames.map(game => `
+      <div class="game-item">
+        <img class="game-img" src="https://cdn.cloudflare.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg" />
+        <div class="game-info">
+          <div class="game-name">${this.escape(game.name)}</div>
+          <div class="game-meta">${translate(lang, 'drawer.report_players', [game.players])}</div>
+        </div>
+        <div class="rank-total">${formatDuration(game.duration, lang)}</div>
+      </div>
+    `).join('')
+
+    const text = [
+      title,
+      summary,
+      `【${translate(lang, 'drawer.playtime_ranking')}】`,
+      ...report.members.map((member, index) => `${index + 1}. ${member.name} ${formatDuration(member.total, lang)}`),
+      `【${translate(lang, 'drawer.top_games')}】`,
+      ...topGames.map(game => `${game.name} ${formatDuration(game.duration, lang)}`),
+    ]
+    if (longest) text.push(`【${translate(lang, 'drawer.report_longest')}】`, longest)
+    if (report.newGames.length) text.push(`【${translate(lang, 'drawer.report_new_games')}】`, ...report.newGames.map(g => `${g.name}: ${g.game}`))
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        body { width: 480px; background-color: var(--bg); }
+        .header { padding: 20px 22px 14px; background: linear-gradient(to bottom, var(--bg-alt) 0%, var(--bg) 100%); }
+        .title { font-size: 22px; font-weight: bold; color: var(--online); margin-bottom: 6px; }
+        .summary { font-size: 15px; color: var(--text-secondary); }
+        .section-title { height: 44px; background-color: var(--bar); display: flex; align-items: center; padding-left: 22px; color: var(--text-secondary); font-size: 18px; }
+        .list-container { padding: 10px 0; }
+        .rank-item { display: flex; align-items: center; min-height: 64px; padding: 4px 22px; }
+        .rank-index { width: 28px; font-size: 20px; font-weight: bold; color: var(--text); }
+        .rank-avatar { width: 50px; height: 50px; border-radius: 4px; margin-right: 14px; }
+        .rank-info, .game-info { flex: 1; display: flex; flex-direction: column; overflow: hidden; }
+        .rank-name, .game-name { font-size: 17px; font-weight: bold; color: var(--name); margin-bottom: 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .rank-games, .game-meta { font-size: 14px; color: var(--muted); white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .rank-total { font-size: 17px; color: var(--game); margin-left: 12px; white-space: nowrap; }
+        .game-item { display: flex; align-items: center; padding: 6px 22px; }
+        .game-img { width: 120px; height: 45px; border-radius: 3px; margin-right: 14px; }
+        .line { padding: 6px 22px; font-size: 15px; color: var(--text); }
+      </style></head><body>
+        <div class="header">
+          <div class="title">${this.escape(title)}</div>
+          <div class="summary">${this.escape(summary)}</div>
+        </div>
+        <div class="section-title">${translate(lang, 'drawer.playtime_ranking')}</div>
+        <div class="list-container">${membersHtml}</div>
+        <div class="section-title">${translate(lang, 'drawer.top_games')}</div>
+        <div class="list-container">${gamesHtml}</div>
+        ${longest ? `
+          <div class="section-title">${translate(lang, 'drawer.report_longest')}</div>
+          <div class="list-container"><div class="line">${this.escape(longest)}</div></div>
+        ` : ''}
+        ${report.newGames.length ? `
+          <div class="section-title">${translate(lang, 'drawer.report_new_games')}</div>
+          <div class="list-container">${report.newGames.map(g => `<div class="line">${this.escape(g.name)}: ${this.escape(g.game)}</div>`).join('')}</div>
+        ` : ''}
+      </body></html>
+    `, 'body', theme, text)
+  }
+
+  async drawCommonGames(players: { name: string; avatar: string }[], games: CommonGame[], lang: Language = this.config.language, theme: Theme = this.config.theme): Promise<Buffer | string> {
+    const names = players.map(p => p.name).join(translate(lang, 'broadcast.name_separator'))
+    const gamesHtml = games.map(game => `
+      <div class="game-item">
+        <img class="game-img" src="https://cdn.cloudflare.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg" />
+        <div class="game-info">
+          <div class="game-name">${this.escape(game.name)}</div>
+          <div class="game-times">${game.playtimes.map(t => formatDuration(t * 60000, lang)).join(' / ')}</div>
+        </div>
+      </div>
+    `).join('')
+    const text = [
+      translate(lang, 'drawer.common_games', [names, games.length]),
+      ...games.map(game => `${game.name}  ${game.playtimes.map(t => formatDuration(t * 60000, lang)).join(' / ')}`),
+    ]
+
+    return this.render(`
+      <html><head><style>
+        ${this.getFontCss()}
+        body { width: 480px; background-color: var(--bg); }
+        .header { padding: 16px 22px; background: linear-gradient(to bottom, var(--bg-alt) 0%, var(--bg) 100%); }
+        .avatars { display: flex; gap: 8px; margin-bottom: 10px; }
+        .avatar { width: 44px; height: 44px; border-radius: 4px; }
+        .title { font-size: 18px; font-weight: bold; color: var(--online); }
+        .list-container { padding: 8px 0; }
+        .game-item { display: flex; align-items: center; padding: 6px 22px; }
+        .game-img { width: 120px; height: 45px; border-radius: 3px; margin-right: 14px; }
+        .game-info { flex: 1; display: flex; flex-direction: column; overflow: hidden; }
+        .game-name { font-size: 16px; font-weight: bold; color: var(--name); margin-bottom: 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        .game-times { font-size: 13px; color: var(--muted); }
+      </style></head><body>
+        <div class="header">
+          <div class="avatars">${players.map(p => `<img class="avatar" src="${p.avatar}" />`).join('')}</div>
+          <div class="title">${this.escape(translate(lang, 'drawer.common_games', [names, games.length]))}</div>
+        </div>
+        <div class="list-container">${gamesHtml}</div>
+      </body></html>
+    `, 'body', theme, text)
   }
 
   async getDefaultAvatar(): Promise<Buffer | string> {
-    return this.render(`<html><body style="margin:0;padding:0;"><div style="width:100px;height:100px;background-color:#ccc;"></div></body></html>`, 'div')
+    return this.render(`<html><body style="margin:0;padding:0;"><div style="width:100px;height:100px;background-color:#ccc;"></div></body></html>`, 'div', this.config.theme, [])
+  }
+
+  private getProfileStats(profile: SteamProfile, lang: Language): string {
+    return [
+      profile.level !== undefined ? translate(lang, 'drawer.level', [profile.level]) : '',
+      profile.owned_games !== undefined ? translate(lang, 'drawer.owned_games', [profile.owned_games]) : '',
+      profile.badge_count !== undefined ? translate(lang, 'drawer.badges', [profile.badge_count]) : '',
+    ].filter(Boolean).join(' · ')
   }
 
   private getOrder(p: PlayerSummary): number {
@@ -1,11 +1,26 @@
 import { Context, Schema, Logger, Session, h } from 'koishi'
-import { SteamService, PlayerSummary } from './service'
-import { DrawService } from './drawer'
-import { SteamBind, SteamChannel } from './database'
+import * as crypto from 'crypto'
+import { mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { DateTime } from 'luxon'
+import { SteamService, PlayerSummary, AchievementUnlock, PriceOverview, NewsItem } from './service'
+import { maskKey } from './keys'
+import { PollScheduler } from './scheduler'
+import { parseCron, getPreviousRun } from './cron'
+import { ImportSummary, exportData, importData, parseExportData, readNonebotData } from './migrate'
+import { DeliveryQueue } from './delivery'
+import { THEMES, Theme } from './themes'
+import { DrawService, PlaytimeRank, CommonGame, WeeklyReport } from './drawer'
+import { formatDuration, getDisplayName, translate, getGameAliases, applyGameAlias, GameAlias, Language, LANGUAGES } from './utils'
+import { SteamBind, SteamChannel, SteamSession, SteamPending, SteamApp, PlayMeta } from './database'
 import zhCN from './locales/zh-CN'
+import enUS from './locales/en-US'
 
 export const name = 'steam-info'
-export const inject = ['model', 'http', 'puppeteer', 'database']
+export const inject = {
+  required: ['model', 'http', 'database'],
+  optional: ['puppeteer'],
+}
 
 export interface Config {
   steamApiKey: string[]
@@ -15,16 +30,45 @@ export interface Config {
   steamSpeedDomain?: string
   steamSpeedKey?: string
   replaceWallpaperEmoji: boolean
+  gameAliases: GameAlias[]
+  gameBlacklist: string[]
+  gameWhitelist: string[]
+  enableStopBroadcast: boolean
+  enableAchievementBroadcast: boolean
+  achievementRarityThreshold: number
+  requireBindVerification: boolean
   requestTimeout: number
+  appCacheTTL: number
+  libraryCacheTTL: number
+  priceRegion: string
+  priceCheckInterval: number
+  newsCheckInterval: number
+  newsBroadcastType: 'text' | 'card'
   steamRequestInterval: number
-  startBroadcastType: 'all' | 'part' | 'none' | 'list' | 'text_image' | 'image' | 'text'
+  maxRequestInterval: number
+  startBroadcastType: BroadcastType
   enablePushDelay: boolean
+  sendInterval: number
+  sendRetries: number
+  deliveryFailThreshold: number
+  rejoinDebounce: number
+  quietHours: string
+  timezone: string
   steamDisableBroadcastOnStartup: boolean
   enableIpCheck: boolean
+  language: Language
+  theme: Theme
+  templateDir: string
+  renderConcurrency: number
+  renderTimeout: number
+  renderFailThreshold: number
   fonts: { regular: string; light: string; bold: string }
-  commandAuthority: { bind: number; unbind: number; info: number; check: number; enable: number; disable: number; update: number; nickname: number }
+  commandAuthority: { bind: number; unbind: number; info: number; check: number; enable: number; disable: number; update: number; nickname: number; stats: number; library: number; watch: number; news: number; report: number; verify: number; language: number; accounts: number; config: number; admin: number }
 }
 
+const BROADCAST_TYPES = ['all', 'part', 'none', 'list', 'text_image', 'image', 'text'] as const
+type BroadcastType = typeof BROADCAST_TYPES[number]
+
 export const Config: Schema<Config> = Schema.intersect([
   Schema.object({
     steamApiKey: Schema.array(String).required().description('Steam API Key（支持多个）'),
@@ -47,12 +91,43 @@ export const Config: Schema<Config> = Schema.intersect([
   ]),
   Schema.object({
     replaceWallpaperEmoji: Schema.boolean().default(false).description('Wallpaper Engine 替换为"起飞"表情'),
+    gameAliases: Schema.array(Schema.object({
+      appid: Schema.string().required().description('游戏 appid'),
+      name: Schema.string().description('显示名称'),
+      verb: Schema.string().description('状态文本，例如“正在挂机”'),
+      emoji: Schema.string().description('显示在游戏名前的表情'),
+    })).default([]).description('游戏别名表，同时作用于文字播报和所有图片'),
+    gameBlacklist: Schema.array(String).default([]).description('不播报的游戏 appid（可在群内通过 steam config gameBlacklist 单独设置）'),
+    gameWhitelist: Schema.array(String).default([]).description('仅播报的游戏 appid，留空表示不限制（可在群内通过 steam config gameWhitelist 单独设置）'),
+    enableStopBroadcast: Schema.boolean().default(false).description('播报停止游戏及本次游戏时长（可在群内通过 steam enable -s / steam disable -s 单独开关）'),
+    enableAchievementBroadcast: Schema.boolean().default(false).description('游戏中解锁成就时播报（可在群内通过 steam config achievementBroadcast 单独设置）'),
+    achievementRarityThreshold: Schema.number().default(100).min(0).max(100).description('只播报全球解锁率不高于该值（百分比）的成就，100 表示全部播报'),
+    requireBindVerification: Schema.boolean().default(false).description('默认要求绑定验证：未通过 steam verify 验证的帐号不参与播报（可在群内通过 steam enable -v / steam disable -v 单独开关）'),
     requestTimeout: Schema.number().default(30000).min(5000).max(120000).description('请求超时时间（毫秒），本地网络建议 15000-30000，海外服务器建议 45000-120000'),
     steamRequestInterval: Schema.number().default(300).description('轮询间隔（秒）'),
-    startBroadcastType: Schema.union(['all', 'part', 'none', 'list', 'text_image', 'image', 'text']).default('text_image').description('播报方式：可选 all（全部图片列表）、part（仅开始游戏时按后续模式）、none（仅文字），或具体开始模式 list/text_image/image/text'),
+    maxRequestInterval: Schema.number().default(3600).description('Steam API 连续失败时退避的最大轮询间隔（秒）'),
+    appCacheTTL: Schema.number().default(7).min(1).description('游戏信息（名称、封面、类型）缓存有效期（天）'),
+    libraryCacheTTL: Schema.number().default(24).min(1).description('玩家游戏库缓存有效期（小时），用于 steam common / steam whoowns'),
+    priceRegion: Schema.string().default('cn').description('价格监控使用的商店地区代码（决定货币），例如 cn、us、jp'),
+    priceCheckInterval: Schema.number().default(60).min(10).description('价格监控的检查间隔（分钟）'),
+    newsCheckInterval: Schema.number().default(30).min(5).description('游戏新闻订阅的检查间隔（分钟）'),
+    newsBroadcastType: Schema.union(['text', 'card']).default('text').description('新闻推送方式：text（标题、摘要与链接）或 card（图片卡片与链接）'),
+    startBroadcastType: Schema.union([...BROADCAST_TYPES]).default('text_image').description('播报方式：可选 all（全部图片列表）、part（仅开始游戏时按后续模式）、none（仅文字），或具体开始模式 list/text_image/image/text'),
     enablePushDelay: Schema.boolean().default(true).description('是否开启多个状态改变的推送延迟'),
+    sendInterval: Schema.number().default(1000).min(0).description('同一个机器人两次发送之间的最小间隔（毫秒）'),
+    sendRetries: Schema.number().default(2).min(0).max(10).description('发送失败时的重试次数，仍失败会尝试同平台的其他机器人'),
+    deliveryFailThreshold: Schema.number().default(5).min(1).description('连续发送失败多少次后将群标记为投递失败'),
+    rejoinDebounce: Schema.number().default(10).min(0).description('重新进入同一游戏的防抖时间（分钟），期间退出后再次开始同一游戏不重复播报'),
+    quietHours: Schema.string().default('').pattern(/^(\d{1,2}:\d{2}-\d{1,2}:\d{2})?$/).description('免打扰时段，例如 23:00-08:00，期间的播报会暂存并在结束后汇总发送，留空表示不启用'),
+    timezone: Schema.string().default('Asia/Shanghai').description('免打扰时段所用的时区（IANA 时区名）'),
     steamDisableBroadcastOnStartup: Schema.boolean().default(false).description('启动时禁用首次播报（仅预热缓存）'),
     enableIpCheck: Schema.boolean().default(false).description('启用IP检测：Steam API连接失败时，检测本机外网IP（前两段，后两段隐藏为*）'),
+    language: Schema.union([...LANGUAGES]).default('zh-CN').description('默认显示语言，影响播报文本、图片和商店游戏名（可在群内通过 steam language 单独设置）'),
+    theme: Schema.union([...THEMES]).default('dark').description('图片主题（可在群内通过 steam config theme 单独设置）'),
+    templateDir: Schema.string().default('').description('自定义模板目录（相对于 Koishi 根目录），可放置 start-gaming.html、friends-status.html、player-status.html，缺少的模板使用内置样式'),
+    renderConcurrency: Schema.number().default(2).min(1).max(8).description('同时渲染的图片数量上限（页面会复用）'),
+    renderTimeout: Schema.number().default(30000).min(5000).description('单张图片的渲染超时时间（毫秒）'),
+    renderFailThreshold: Schema.number().default(3).min(1).description('连续渲染失败多少次后暂时改用文字输出（未安装 puppeteer 时始终使用文字）'),
     fonts: Schema.object({
       regular: Schema.string().default('fonts/MiSans-Regular.ttf'),
       light: Schema.string().default('fonts/MiSans-Light.ttf'),
@@ -67,6 +142,16 @@ export const Config: Schema<Config> = Schema.intersect([
       disable: Schema.number().default(2).description('禁用播报命令所需权限'),
       update: Schema.number().default(2).description('更新群信息命令所需权限'),
       nickname: Schema.number().default(1).description('设置昵称命令所需权限'),
+      stats: Schema.number().default(1).description('游戏时长排行命令所需权限'),
+      library: Schema.number().default(1).description('游戏库对比命令（common/whoowns）所需权限'),
+      watch: Schema.number().default(2).description('价格监控命令（watch/unwatch）所需权限'),
+      news: Schema.number().default(2).description('新闻订阅命令（news/subscribe/unsubscribe）所需权限'),
+      report: Schema.number().default(2).description('定时周报命令所需权限'),
+      verify: Schema.number().default(1).description('绑定验证命令所需权限'),
+      language: Schema.number().default(2).description('显示语言命令所需权限'),
+      accounts: Schema.number().default(1).description('多帐号管理命令（accounts/default/join/leave）所需权限'),
+      config: Schema.number().default(2).description('群播报设置命令所需权限'),
+      admin: Schema.number().default(4).description('管理命令（steam admin）所需权限'),
     }).description('命令权限配置'),
   }),
 ])
@@ -78,44 +163,199 @@ declare module 'koishi' {
 }
 
 const statusCache = new Map<string, PlayerSummary>()
-const playMeta = new Map<string, { lastLeftAt?: number, lastLeftGame?: string }>()
+const playMeta = new Map<string, PlayMeta>()
 const lastSeenAt = new Map<string, number>()
 const STALE_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const GLOBAL_CHANNEL = ''
+const STATS_PERIODS = ['day', 'week', 'month'] as const
+type StatsPeriod = typeof STATS_PERIODS[number]
+
+interface ChannelSetting {
+  field: keyof SteamChannel
+  configKey: keyof Config
+  parse(value: string): string | number | boolean | string[] | undefined
+}
+
+const parseSwitch = (value: string) => {
+  if (['on', 'true', '1', 'yes', '开', '开启'].includes(value.toLowerCase())) return true
+  if (['off', 'false', '0', 'no', '关', '关闭'].includes(value.toLowerCase())) return false
+}
+
+const CHANNEL_SETTINGS: Record<string, ChannelSetting> = {
+  startBroadcastType: { field: 'startBroadcastType', configKey: 'startBroadcastType', parse: value => BROADCAST_TYPES.find(type => type === value) },
+  enablePushDelay: { field: 'enablePushDelay', configKey: 'enablePushDelay', parse: parseSwitch },
+  replaceWallpaperEmoji: { field: 'replaceWallpaperEmoji', configKey: 'replaceWallpaperEmoji', parse: parseSwitch },
+  rejoinDebounce: { field: 'rejoinDebounce', configKey: 'rejoinDebounce', parse: value => /^\d+$/.test(value) ? Number(value) : undefined },
+  achievementBroadcast: { field: 'achievementBroadcast', configKey: 'enableAchievementBroadcast', parse: parseSwitch },
+  achievementRarity: { field: 'achievementRarity', configKey: 'achievementRarityThreshold', parse: value => /^\d+(\.\d+)?$/.test(value) && Number(value) <= 100 ? Number(value) : undefined },
+  stopBroadcast: { field: 'stopBroadcast', configKey: 'enableStopBroadcast', parse: parseSwitch },
+  requireVerify: { field: 'requireVerify', configKey: 'requireBindVerification', parse: parseSwitch },
+  language: { field: 'language', configKey: 'language', parse: value => LANGUAGES.find(lang => lang.toLowerCase() === value.toLowerCase()) },
+  gameBlacklist: { field: 'gameBlacklist', configKey: 'gameBlacklist', parse: value => parseAppidList(value) },
+  gameWhitelist: { field: 'gameWhitelist', configKey: 'gameWhitelist', parse: value => parseAppidList(value) },
+  theme: { field: 'theme', configKey: 'theme', parse: value => THEMES.find(theme => theme === value) },
+  quietHours: { field: 'quietHours', configKey: 'quietHours', parse: value => parseSwitch(value) === false ? '' : parseQuietHours(value) && value },
+  timezone: { field: 'timezone', configKey: 'timezone', parse: value => DateTime.now().setZone(value).isValid ? value : undefined },
+}
+
+// 群设置字段默认为 null，表示沿用全局配置
+function nullable<T extends 'boolean' | 'string' | 'unsigned' | 'double' | 'list'>(type: T) {
+  return { type, nullable: true, initial: null }
+}
+
+type BroadcastPlayer = PlayerSummary & { nickname?: string; displayName?: string }
+type StopGamingPlayer = BroadcastPlayer & { duration?: number }
 
 export function apply(ctx: Context, config: Config) {
   ctx.i18n.define('zh-CN', zhCN)
   ctx.i18n.define('zh', zhCN)
+  ctx.i18n.define('en-US', enUS)
+  ctx.i18n.define('en', enUS)
   ctx.plugin(SteamService, config)
   ctx.plugin(DrawService, config)
 
-  ctx.model.extend('steam_bind', { id: 'unsigned', userId: 'string', channelId: 'string', steamId: 'string', nickname: 'string' }, { primary: 'id', autoInc: true })
-  ctx.model.extend('steam_channel', { id: 'string', enable: 'boolean', name: 'string', avatar: 'string', platform: 'string', assignee: 'string' }, { primary: 'id' })
+  ctx.model.extend('steam_bind', { id: 'unsigned', userId: 'string', channelId: 'string', steamId: 'string', nickname: 'string', label: 'string', isDefault: 'boolean', verified: 'boolean', verifyCode: 'string' }, { primary: 'id', autoInc: true })
+  ctx.model.extend('steam_optin', { id: 'unsigned', userId: 'string', channelId: 'string' }, { primary: 'id', autoInc: true })
+  ctx.model.extend('steam_channel', { id: 'string', enable: 'boolean', name: 'string', avatar: 'string', platform: 'string', assignee: 'string', stopBroadcast: nullable('boolean'), requireVerify: nullable('boolean'), language: nullable('string'), startBroadcastType: nullable('string'), enablePushDelay: nullable('boolean'), replaceWallpaperEmoji: nullable('boolean'), rejoinDebounce: nullable('unsigned'), quietHours: nullable('string'), timezone: nullable('string'), gameBlacklist: nullable('list'), gameWhitelist: nullable('list'), achievementBroadcast: nullable('boolean'), achievementRarity: nullable('double'), theme: nullable('string'), failCount: 'unsigned', lastError: 'text', reportSchedule: 'string', reportSentAt: 'timestamp' }, { primary: 'id' })
+  ctx.model.extend('steam_app', { appid: 'string', language: 'string', name: 'string', type: 'string', headerImage: 'string', capsuleImage: 'string', genres: 'list', fetchedAt: 'timestamp' }, { primary: ['appid', 'language'] })
+  ctx.model.extend('steam_achievement', { steamId: 'string', appid: 'string', apiname: 'string', unlockedAt: 'timestamp' }, { primary: ['steamId', 'appid', 'apiname'] })
+  ctx.model.extend('steam_library', { steamId: 'string', games: 'json', fetchedAt: 'timestamp' }, { primary: 'steamId' })
+  ctx.model.extend('steam_watch', { id: 'unsigned', channelId: 'string', appid: 'string', createdAt: 'timestamp' }, { primary: 'id', autoInc: true })
+  ctx.model.extend('steam_price', { appid: 'string', region: 'string', currency: 'string', initial: 'unsigned', final: 'unsigned', discount: 'unsigned', formatted: 'string', lowest: 'unsigned', lowestAt: 'timestamp', checkedAt: 'timestamp' }, { primary: ['appid', 'region'] })
+  ctx.model.extend('steam_news_subscription', { id: 'unsigned', channelId: 'string', appid: 'string', createdAt: 'timestamp' }, { primary: 'id', autoInc: true })
+  ctx.model.extend('steam_news', { appid: 'string', lastGid: 'string', lastDate: 'timestamp', checkedAt: 'timestamp' }, { primary: 'appid' })
+  ctx.model.extend('steam_pending', { id: 'unsigned', channelId: 'string', message: 'text', createdAt: 'timestamp' }, { primary: 'id', autoInc: true })
+  ctx.model.extend('steam_status', { steamId: 'string', summary: 'json', meta: 'json', lastSeenAt: 'timestamp' }, { primary: 'steamId' })
+  ctx.model.extend('steam_session', { id: 'unsigned', steamId: 'string', appid: 'string', gameName: 'string', startedAt: 'timestamp', endedAt: 'timestamp' }, { primary: 'id', autoInc: true })
 
   ctx.using(['steam', 'drawer'], (ctx) => {
     ctx.command('steam', 'Steam 信息')
 
-    ctx.command('steam.bind <steamId:string>', '绑定 Steam ID', { authority: config.commandAuthority.bind })
+    ctx.command('steam.bind <steamId:string> [label:string]', '绑定 Steam ID', { authority: config.commandAuthority.bind })
       .alias('steambind', '绑定steam')
-      .action(async ({ session }, steamId) => {
+      .option('global', '-g 全局绑定（在所有加入的群生效）')
+      .option('verify', '-v 绑定后进行所有权验证')
+      .action(async ({ session, options }, steamId, label) => {
         if (!session || !steamId) return session?.text('.usage')
-        if (!/^[0-9]+$/.test(steamId)) return session.text('.invalid_id')
 
         const targetId = await ctx.steam.getSteamId(steamId)
+        if (targetId === undefined) return session.text('.api_error')
         if (!targetId) return session.text('.id_not_found')
 
-        const existing = await ctx.database.get('steam_bind', { userId: session.userId, channelId: session.channelId })
-        if (existing.length) return session.text('.already_bound')
+        const scope = options?.global ? GLOBAL_CHANNEL : session.channelId
+        const existing = await ctx.database.get('steam_bind', { userId: session.userId, channelId: scope })
+        if (existing.some(b => b.steamId === targetId)) return session.text('.already_bound')
+        if (label && existing.some(b => b.label === label)) return session.text('.label_taken', [label])
+
+        const player = await ctx.steam.getPlayerSummary(targetId)
+        if (player === undefined) return session.text('.api_error')
+        if (!player) return session.text('.id_not_found')
 
-        await ctx.database.upsert('steam_bind', [{ userId: session.userId, channelId: session.channelId, steamId: targetId }], ['userId', 'channelId'])
-        return session.text('.bind_success', [targetId])
+        const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+        const verifyCode = options?.verify || requiresVerification(config, channel) ? generateVerifyCode() : ''
+
+        await ctx.database.create('steam_bind', {
+          userId: session.userId,
+          channelId: scope,
+          steamId: targetId,
+          label: label || '',
+          isDefault: !existing.length,
+          verified: false,
+          verifyCode,
+        })
+        if (options?.global) await joinChannel(ctx, session.userId, session.channelId)
+
+        let reply = h.image(player.avatarfull) + session.text('.bind_success', [targetId, player.personaname])
+        if (options?.global) reply += '\n' + session.text('.global_bound')
+        if (player.communityvisibilitystate !== 3) reply += '\n' + session.text('.private_profile')
+        if (verifyCode) reply += '\n' + session.text('.verify_required', [verifyCode])
+        return reply
       })
 
-    ctx.command('steam.unbind', '解绑 Steam ID', { authority: config.commandAuthority.unbind })
+    ctx.command('steam.unbind [account:string]', '解绑 Steam ID', { authority: config.commandAuthority.unbind })
       .alias('steamunbind', '解绑steam')
+      .option('global', '-g 解绑全局绑定')
+      .action(async ({ session, options }, account) => {
+        if (!session) return
+        const scope = options?.global ? GLOBAL_CHANNEL : session.channelId
+        const binds = await ctx.database.get('steam_bind', { userId: session.userId, channelId: scope })
+        if (!binds.length) return session.text('.not_bound')
+        if (!account && binds.length > 1) return session.text('.choose_account', [formatAccounts(session, binds)])
+
+        const bind = account ? findBind(binds, account) : binds[0]
+        if (!bind) return session.text('.account_not_found', [account])
+
+        await ctx.database.remove('steam_bind', { id: bind.id })
+        const rest = binds.filter(b => b.id !== bind.id)
+        if (bind.isDefault && rest.length) await ctx.database.set('steam_bind', rest[0].id, { isDefault: true })
+        return session.text('.unbind_success')
+      })
+
+    ctx.command('steam.accounts', '查看已绑定的 Steam 帐号', { authority: config.commandAuthority.accounts })
+      .alias('steamaccounts')
+      .action(async ({ session }) => {
+        if (!session) return
+        const binds = await getUserBinds(ctx, session.userId, session.channelId)
+        if (!binds.length) return session.text('.not_bound')
+        return formatAccounts(session, binds)
+      })
+
+    ctx.command('steam.default <account:string>', '设置默认 Steam 帐号', { authority: config.commandAuthority.accounts })
+      .alias('steamdefault')
+      .action(async ({ session }, account) => {
+        if (!session || !account) return session?.text('.usage')
+        const binds = await getUserBinds(ctx, session.userId, session.channelId)
+        const bind = findBind(binds, account)
+        if (!bind) return session.text('.account_not_found', [account])
+
+        const siblings = binds.filter(b => b.id !== bind.id)
+        if (siblings.length) await ctx.database.set('steam_bind', { id: siblings.map(b => b.id) }, { isDefault: false })
+        await ctx.database.set('steam_bind', bind.id, { isDefault: true })
+        return session.text('.default_set', [bind.label || bind.steamId])
+      })
+
+    ctx.command('steam.join', '在本群启用全局绑定的帐号', { authority: config.commandAuthority.accounts })
+      .alias('steamjoin')
+      .action(async ({ session }) => {
+        if (!session) return
+        const globals = await ctx.database.get('steam_bind', { userId: session.userId, channelId: GLOBAL_CHANNEL })
+        if (!globals.length) return session.text('.no_global_binds')
+        await joinChannel(ctx, session.userId, session.channelId)
+        return session.text('.join_success', [globals.length])
+      })
+
+    ctx.command('steam.leave', '在本群停用全局绑定的帐号', { authority: config.commandAuthority.accounts })
+      .alias('steamleave')
       .action(async ({ session }) => {
         if (!session) return
-        const result = await ctx.database.remove('steam_bind', { userId: session.userId, channelId: session.channelId })
-        return result ? session.text('.unbind_success') : session.text('.not_bound')
+        const result = await ctx.database.remove('steam_optin', { userId: session.userId, channelId: session.channelId })
+        return result.removed ? session.text('.leave_success') : session.text('.not_joined')
+      })
+
+    ctx.command('steam.verify [account:string]', '验证 Steam 帐号所有权', { authority: config.commandAuthority.verify })
+      .alias('steamverify', '验证steam')
+      .action(async ({ session }, account) => {
+        if (!session) return
+        const binds = await getUserBinds(ctx, session.userId, session.channelId)
+        if (!binds.length) return session.text('.not_bound')
+        const bind = account ? findBind(binds, account) : pickDefaultBind(binds)
+        if (!bind) return session.text('.account_not_found', [account])
+        if (bind.verified) return session.text('.already_verified')
+
+        if (!bind.verifyCode) {
+          const verifyCode = generateVerifyCode()
+          await ctx.database.set('steam_bind', bind.id, { verifyCode })
+          return session.text('.code_issued', [verifyCode])
+        }
+
+        try {
+          if (!await checkVerifyCode(ctx, bind.steamId, bind.verifyCode)) return session.text('.code_not_found', [bind.verifyCode])
+          await ctx.database.set('steam_bind', bind.id, { verified: true, verifyCode: '' })
+          return session.text('.verify_success')
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
       })
 
     ctx.command('steam.info [target:text]', '查看 Steam 资料', { authority: config.commandAuthority.info })
@@ -126,12 +366,15 @@ export function apply(ctx: Context, config: Config) {
           const steamId = await resolveSteamId(ctx, session, target)
           if (!steamId) return session.text('.user_not_found')
 
-          const profile = await ctx.steam.getUserData(steamId)
-          const image = await ctx.drawer.drawPlayerStatus(profile, steamId)
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const { language: lang, theme } = getChannelConfig(config, channel)
+          const profile = await ctx.steam.getProfile(steamId, lang)
+          if (!profile) return session.text('.profile_unavailable')
+          const image = await ctx.drawer.drawPlayerStatus(profile, steamId, lang, theme)
           return typeof image === 'string' ? image : h.image(image, 'image/png')
-        } catch (err: any) {
+        } catch (err) {
           logger.error(err)
-          return err.message || session.text('.error')
+          return session.text('.error')
         }
       })
 
@@ -140,7 +383,8 @@ export function apply(ctx: Context, config: Config) {
       .action(async ({ session }) => {
         if (!session) return
         try {
-          const binds = await ctx.database.get('steam_bind', { channelId: session.channelId })
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const binds = (await getChannelBinds(ctx, [session.channelId!])).filter(b => isBindActive(config, channel, b))
           if (!binds.length) return session.text('.no_binds')
 
           const summaries = await ctx.steam.getPlayerSummaries(binds.map(b => b.steamId))
@@ -148,7 +392,8 @@ export function apply(ctx: Context, config: Config) {
 
           const channelInfo = await ensureChannelMeta(ctx, session)
           const parentAvatar = channelInfo.avatar ? Buffer.from(channelInfo.avatar, 'base64') : await ctx.drawer.getDefaultAvatar()
-          const image = await ctx.drawer.drawFriendsStatus(parentAvatar, channelInfo.name || session.channelId || 'Unknown', summaries, binds)
+          const channelConfig = getChannelConfig(config, channel)
+          const image = await ctx.drawer.drawFriendsStatus(parentAvatar, channelInfo.name || session.channelId || 'Unknown', summaries, binds, channelConfig.language, getGameAliases(channelConfig, channelConfig.language), channelConfig.theme)
           return typeof image === 'string' ? image : h.image(image, 'image/png')
         } catch (err) {
           logger.error(err)
@@ -158,16 +403,36 @@ export function apply(ctx: Context, config: Config) {
 
     ctx.command('steam.enable', '启用播报', { authority: config.commandAuthority.enable })
       .alias('steamenable')
-      .action(async ({ session }) => {
+      .option('stop', '-s 启用停止游戏播报')
+      .option('verify', '-v 要求绑定验证')
+      .action(async ({ session, options }) => {
         if (!session) return
+        if (options?.verify) {
+          await ctx.database.upsert('steam_channel', [{ id: session.channelId, requireVerify: true, platform: session.platform, assignee: session.selfId }])
+          return session.text('.verify_enable_success')
+        }
+        if (options?.stop) {
+          await ctx.database.upsert('steam_channel', [{ id: session.channelId, stopBroadcast: true, platform: session.platform, assignee: session.selfId }])
+          return session.text('.stop_enable_success')
+        }
         await ctx.database.upsert('steam_channel', [{ id: session.channelId, enable: true, platform: session.platform, assignee: session.selfId }])
         return session.text('.enable_success')
       })
 
     ctx.command('steam.disable', '禁用播报', { authority: config.commandAuthority.disable })
       .alias('steamdisable')
-      .action(async ({ session }) => {
+      .option('stop', '-s 仅禁用停止游戏播报')
+      .option('verify', '-v 不再要求绑定验证')
+      .action(async ({ session, options }) => {
         if (!session) return
+        if (options?.verify) {
+          await ctx.database.upsert('steam_channel', [{ id: session.channelId, requireVerify: false, platform: session.platform, assignee: session.selfId }])
+          return session.text('.verify_disable_success')
+        }
+        if (options?.stop) {
+          await ctx.database.upsert('steam_channel', [{ id: session.channelId, stopBroadcast: false, platform: session.platform, assignee: session.selfId }])
+          return session.text('.stop_disable_success')
+        }
         await ctx.database.upsert('steam_channel', [{ id: session.channelId, enable: false, platform: session.platform, assignee: session.selfId }])
         return session.text('.disable_success')
       })
@@ -197,24 +462,456 @@ export function apply(ctx: Context, config: Config) {
       .alias('steamnickname')
       .action(async ({ session }, nickname) => {
         if (!session || !nickname) return session?.text('.usage')
-        const bind = await ctx.database.get('steam_bind', { userId: session.userId, channelId: session.channelId })
-        if (!bind.length) return session.text('.not_bound')
+        const binds = await getUserBinds(ctx, session.userId, session.channelId)
+        if (!binds.length) return session.text('.not_bound')
 
-        await ctx.database.upsert('steam_bind', [{ ...bind[0], nickname }])
+        await ctx.database.set('steam_bind', { id: binds.map(b => b.id) }, { nickname })
         return session.text('.nickname_set', [nickname])
       })
 
+    ctx.command('steam.stats [period:string]', '查看游戏时长排行', { authority: config.commandAuthority.stats })
+      .alias('steamstats', 'steam排行')
+      .action(async ({ session }, period = 'week') => {
+        if (!session) return
+        if (!STATS_PERIODS.includes(period as StatsPeriod)) return session.text('.usage')
+        try {
+          const channelInfo = await ensureChannelMeta(ctx, session)
+          const binds = (await getChannelBinds(ctx, [session.channelId!])).filter(b => isBindActive(config, channelInfo, b))
+          if (!binds.length) return session.text('.no_binds')
+
+          const channelConfig = getChannelConfig(config, channelInfo)
+          // 按群的时区划分自然日/周/月
+          const since = DateTime.now().setZone(channelConfig.timezone).startOf(period as StatsPeriod).toMillis()
+          const ranks = await collectPlaytime(ctx, binds, since, Date.now(), getGameAliases(channelConfig, channelConfig.language))
+          if (!ranks.length) return session.text('.no_data')
+
+          const title = `${channelInfo.name || session.channelId} · ${session.text(`.period_${period}`)}`
+          const image = await ctx.drawer.drawPlaytimeStats(title, ranks, channelConfig.language, channelConfig.theme)
+          return typeof image === 'string' ? image : h.image(image, 'image/png')
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.report [schedule:text]', '设置本群的定时周报', { authority: config.commandAuthority.report })
+      .alias('steamreport', 'steam周报')
+      .option('off', '-o 关闭定时周报')
+      .option('now', '-n 立即生成一份周报')
+      .action(async ({ session, options }, schedule) => {
+        if (!session) return
+        try {
+          const channelInfo = await ensureChannelMeta(ctx, session)
+          if (options?.now) return await buildReport(ctx, config, channelInfo, Date.now()) || session.text('.no_data')
+          if (options?.off) {
+            await ctx.database.set('steam_channel', session.channelId!, { reportSchedule: '' })
+            return session.text('.disabled')
+          }
+          if (!schedule?.trim()) {
+            return channelInfo.reportSchedule
+              ? session.text('.current', [channelInfo.reportSchedule, getChannelConfig(config, channelInfo).timezone])
+              : session.text('.not_set')
+          }
+          if (!parseCron(schedule)) return session.text('.invalid', [schedule.trim()])
+          // 从设置时开始计算，不补发设置前错过的周报
+          await ctx.database.set('steam_channel', session.channelId!, { reportSchedule: schedule.trim(), reportSentAt: new Date() })
+          return session.text('.success', [schedule.trim(), getChannelConfig(config, channelInfo).timezone])
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.common [targets:text]', '查看多人共同拥有的游戏', { authority: config.commandAuthority.library })
+      .alias('steamcommon')
+      .action(async ({ session }) => {
+        if (!session) return
+        const userIds = [...new Set((session.elements || []).filter(e => e.type === 'at' && e.attrs?.id && e.attrs.id !== session.selfId).map(e => e.attrs.id as string))]
+        // 只 @ 了一个人时和自己比较
+        if (userIds.length === 1 && userIds[0] !== session.userId) userIds.unshift(session.userId!)
+        if (userIds.length < 2) return session.text('.usage')
+
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const binds: SteamBind[] = []
+          for (const userId of userIds) {
+            const bind = pickDefaultBind((await getUserBinds(ctx, userId, session.channelId)).filter(b => isBindActive(config, channel, b)))
+            if (!bind) return session.text('.not_bound', [h.at(userId)])
+            binds.push(bind)
+          }
+
+          const summaries = await ctx.steam.getPlayerSummaries(binds.map(b => b.steamId))
+          const players = binds.map(bind => {
+            const summary = summaries.find(p => p.steamid === bind.steamId)
+            return { name: bind.nickname || summary?.personaname || bind.steamId, avatar: summary?.avatarmedium || '' }
+          })
+          const libraries = await Promise.all(binds.map(b => ctx.steam.getOwnedGames(b.steamId)))
+          const privateIndex = libraries.findIndex(games => !games)
+          if (privateIndex >= 0) return session.text('.library_unavailable', [players[privateIndex].name])
+
+          const maps = libraries.map(games => new Map(games!.map(g => [g.appid, g])))
+          const common: CommonGame[] = libraries[0]!
+            .filter(game => maps.every(map => map.has(game.appid)))
+            .map(game => ({ appid: game.appid, name: game.name, playtimes: maps.map(map => map.get(game.appid)!.playtime) }))
+            .sort((a, b) => b.playtimes.reduce((x, y) => x + y, 0) - a.playtimes.reduce((x, y) => x + y, 0))
+          if (!common.length) return session.text('.no_common')
+
+          const channelConfig = getChannelConfig(config, channel)
+          const image = await ctx.drawer.drawCommonGames(players, common.slice(0, 20), channelConfig.language, channelConfig.theme)
+          return typeof image === 'string' ? image : h.image(image, 'image/png')
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.whoowns <game:text>', '查看本群谁拥有某个游戏', { authority: config.commandAuthority.library })
+      .alias('steamwhoowns', '谁有')
+      .action(async ({ session }, game) => {
+        if (!session) return
+        if (!game?.trim()) return session.text('.usage')
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const binds = (await getChannelBinds(ctx, [session.channelId!]))
+            .filter(b => isBindActive(config, channel, b))
+            .filter((b, index, list) => list.findIndex(o => o.steamId === b.steamId) === index)
+          if (!binds.length) return session.text('.no_binds')
+
+          const libraries = await Promise.all(binds.map(async bind => ({ bind, games: await ctx.steam.getOwnedGames(bind.steamId) || [] })))
+          const query = game.trim().toLowerCase()
+          const allGames = libraries.flatMap(l => l.games)
+          const target = /^\d+$/.test(query)
+            ? allGames.find(g => String(g.appid) === query)
+            : allGames.find(g => g.name?.toLowerCase() === query) || allGames.find(g => g.name?.toLowerCase().includes(query))
+          if (!target) return session.text('.not_found', [game.trim()])
+
+          const summaries = await ctx.steam.getPlayerSummaries(binds.map(b => b.steamId))
+          const lang = getChannelLanguage(config, channel)
+          const owners = libraries
+            .map(({ bind, games }) => ({ bind, owned: games.find(g => g.appid === target.appid) }))
+            .filter(o => o.owned)
+            .sort((a, b) => b.owned!.playtime - a.owned!.playtime)
+            .map(({ bind, owned }) => {
+              const summary = summaries.find(p => p.steamid === bind.steamId)
+              const name = summary ? getDisplayName(bind, summary, binds) : bind.nickname || bind.steamId
+              return session.text('.owner', [name, formatDuration(owned!.playtime * 60000, lang)])
+            })
+          return [session.text('.result', [target.name, owners.length, binds.length]), ...owners].join('\n')
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.watch [game:text]', '监控游戏价格，打折或史低时通知本群', { authority: config.commandAuthority.watch })
+      .alias('steamwatch')
+      .action(async ({ session }, game) => {
+        if (!session) return
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const lang = getChannelLanguage(config, channel)
+          const watches = await ctx.database.get('steam_watch', { channelId: session.channelId })
+          if (!game?.trim()) {
+            if (!watches.length) return session.text('.empty')
+            const lines = await Promise.all(watches.map(async w => `${w.appid} ${(await ctx.steam.getAppInfo(w.appid, lang))?.name || ''}`.trim()))
+            return [session.text('.list', [watches.length]), ...lines].join('\n')
+          }
+
+          const app = await findApp(ctx, game.trim(), lang)
+          if (!app) return session.text('.not_found', [game.trim()])
+          if (watches.some(w => w.appid === app.appid)) return session.text('.already', [app.name])
+
+          await ensureChannelMeta(ctx, session)
+          await ctx.database.create('steam_watch', { channelId: session.channelId, appid: app.appid, createdAt: new Date() })
+          const price = await ctx.steam.getPriceOverview(app.appid, config.priceRegion)
+          // 已有其他群监控时保留原有记录，由定时检查通知所有监控的群
+          const [recorded] = await ctx.database.get('steam_price', { appid: app.appid, region: config.priceRegion })
+          if (price && !recorded) await recordPrice(ctx, config.priceRegion, app.appid, price)
+          if (price === null) return session.text('.success_no_price', [app.name])
+          return price
+            ? session.text('.success', [app.name, price.final_formatted])
+            : session.text('.success_unknown', [app.name])
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.unwatch <game:text>', '取消监控游戏价格', { authority: config.commandAuthority.watch })
+      .alias('steamunwatch')
+      .action(async ({ session }, game) => {
+        if (!session) return
+        if (!game?.trim()) return session.text('.usage')
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const lang = getChannelLanguage(config, channel)
+          const query = game.trim().toLowerCase()
+          let target = (await ctx.database.get('steam_watch', { channelId: session.channelId, appid: query }))[0]
+          if (!target) {
+            for (const watch of await ctx.database.get('steam_watch', { channelId: session.channelId })) {
+              const name = (await ctx.steam.getAppInfo(watch.appid, lang))?.name?.toLowerCase()
+              if (name && (name === query || name.includes(query))) {
+                target = watch
+                break
+              }
+            }
+          }
+          if (!target) return session.text('.not_watching', [game.trim()])
+          await ctx.database.remove('steam_watch', { id: target.id })
+          return session.text('.success', [(await ctx.steam.getAppInfo(target.appid, lang))?.name || target.appid])
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.news', '查看本群订阅的游戏新闻', { authority: config.commandAuthority.news })
+      .action(async ({ session }) => {
+        if (!session) return
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const lang = getChannelLanguage(config, channel)
+          const subscriptions = await ctx.database.get('steam_news_subscription', { channelId: session.channelId })
+          if (!subscriptions.length) return session.text('.empty')
+          const lines = await Promise.all(subscriptions.map(async s => `${s.appid} ${(await ctx.steam.getAppInfo(s.appid, lang))?.name || ''}`.trim()))
+          return [session.text('.list', [subscriptions.length]), ...lines].join('\n')
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.news.subscribe <game:text>', '订阅游戏新闻与更新公告', { authority: config.commandAuthority.news })
+      .alias('steamnews')
+      .action(async ({ session }, game) => {
+        if (!session) return
+        if (!game?.trim()) return session.text('.usage')
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const app = await findApp(ctx, game.trim(), getChannelLanguage(config, channel))
+          if (!app) return session.text('.not_found', [game.trim()])
+          const existing = await ctx.database.get('steam_news_subscription', { channelId: session.channelId, appid: app.appid })
+          if (existing.length) return session.text('.already', [app.name])
+
+          await ensureChannelMeta(ctx, session)
+          await ctx.database.create('steam_news_subscription', { channelId: session.channelId, appid: app.appid, createdAt: new Date() })
+          // 新订阅的游戏以当前最新一条新闻为起点，不推送历史新闻
+          const [state] = await ctx.database.get('steam_news', { appid: app.appid })
+          if (!state) {
+            const items = await ctx.steam.getNewsForApp(app.appid)
+            if (items) await saveNewsState(ctx, app.appid, items)
+          }
+          return session.text('.success', [app.name])
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.news.unsubscribe <game:text>', '取消订阅游戏新闻', { authority: config.commandAuthority.news })
+      .action(async ({ session }, game) => {
+        if (!session) return
+        if (!game?.trim()) return session.text('.usage')
+        try {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          const lang = getChannelLanguage(config, channel)
+          const query = game.trim().toLowerCase()
+          let target = (await ctx.database.get('steam_news_subscription', { channelId: session.channelId, appid: query }))[0]
+          if (!target) {
+            for (const subscription of await ctx.database.get('steam_news_subscription', { channelId: session.channelId })) {
+              const name = (await ctx.steam.getAppInfo(subscription.appid, lang))?.name?.toLowerCase()
+              if (name && (name === query || name.includes(query))) {
+                target = subscription
+                break
+              }
+            }
+          }
+          if (!target) return session.text('.not_subscribed', [game.trim()])
+          await ctx.database.remove('steam_news_subscription', { id: target.id })
+          return session.text('.success', [(await ctx.steam.getAppInfo(target.appid, lang))?.name || target.appid])
+        } catch (err) {
+          logger.error(err)
+          return session.text('.error')
+        }
+      })
+
+    ctx.command('steam.language [language:string]', '设置本群显示语言', { authority: config.commandAuthority.language })
+      .alias('steamlanguage')
+      .action(async ({ session }, language) => {
+        if (!session) return
+        if (!language) {
+          const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+          return session.text('.current', [getChannelLanguage(config, channel)])
+        }
+
+        const matched = LANGUAGES.find(lang => lang.toLowerCase() === language.toLowerCase())
+        if (!matched) return session.text('.unsupported', [LANGUAGES.join(', ')])
+        await ctx.database.upsert('steam_channel', [{ id: session.channelId, language: matched, platform: session.platform, assignee: session.selfId }])
+        return session.text('.set_success', [matched])
+      })
+
+    ctx.command('steam.config [key:string] [value:string]', '查看或修改本群播报设置', { authority: config.commandAuthority.config })
+      .alias('steamconfig')
+      .option('reset', '-r 恢复为全局默认值')
+      .action(async ({ session, options }, key, value) => {
+        if (!session) return
+        const [channel] = await ctx.database.get('steam_channel', { id: session.channelId })
+        const channelConfig = getChannelConfig(config, channel)
+        const describe = (name: string) => {
+          const setting = CHANNEL_SETTINGS[name]
+          const overridden = channel?.[setting.field] != null
+          return `${name} = ${channelConfig[setting.configKey]} (${session.text(overridden ? '.source_channel' : '.source_global')})`
+        }
+
+        if (!key) return Object.keys(CHANNEL_SETTINGS).map(describe).join('\n')
+        const setting = CHANNEL_SETTINGS[key]
+        if (!setting) return session.text('.unknown_key', [Object.keys(CHANNEL_SETTINGS).join(', ')])
+        if (!options?.reset && value === undefined) return describe(key)
+
+        const parsed = options?.reset ? null : setting.parse(value!)
+        if (parsed === undefined) return session.text('.invalid_value', [key, value])
+
+        const update: any = { id: session.channelId, platform: session.platform, assignee: session.selfId, [setting.field]: parsed }
+        await ctx.database.upsert('steam_channel', [update])
+        return options?.reset ? session.text('.reset_success', [key]) : session.text('.set_success', [key, parsed])
+      })
+
+    ctx.command('steam.admin', 'Steam 插件管理', { authority: config.commandAuthority.admin })
+
+    ctx.command('steam.admin.keys', '查看 API Key 状态', { authority: config.commandAuthority.admin })
+      .action(({ session }) => {
+        if (!session) return
+        const now = Date.now()
+        return ctx.steam.keys.stats().map((state, index) => {
+          const total = state.success + state.failure
+          const status = state.cooldownUntil > now
+            ? session.text('.status_cooldown', [Math.ceil((state.cooldownUntil - now) / 1000)])
+            : session.text('.status_ok')
+          const lines = [
+            `#${index + 1} ${maskKey(state.key)} ${status}`,
+            session.text('.stats', [state.success, state.failure, total ? Math.round(state.totalLatency / total) : 0]),
+          ]
+          if (state.lastError) lines.push(session.text('.last_error', [state.lastError]))
+          return lines.join('\n')
+        }).join('\n\n') || session.text('.no_keys')
+      })
+
+    ctx.command('steam.admin.export [file:string]', '导出绑定与群数据为 JSON', { authority: config.commandAuthority.admin })
+      .action(async ({ session }, file) => {
+        if (!session) return
+        try {
+          const path = resolve(ctx.baseDir, file || `data/steam-info/export-${DateTime.now().toFormat('yyyyLLdd-HHmmss')}.json`)
+          const data = await exportData(ctx)
+          mkdirSync(dirname(path), { recursive: true })
+          writeFileSync(path, JSON.stringify(data, null, 2))
+          return session.text('.success', [data.binds.length, data.optins.length, data.channels.length, path])
+        } catch (err: any) {
+          logger.error(err)
+          return session.text('.error', [err.message])
+        }
+      })
+
+    ctx.command('steam.admin.import <file:string>', '从导出的 JSON 导入绑定与群数据', { authority: config.commandAuthority.admin })
+      .option('replace', '-r 清空现有绑定与群数据后导入')
+      .option('dryRun', '-d 只统计变更，不写入数据库')
+      .action(async ({ session, options }, file) => {
+        if (!session) return
+        if (!file) return session.text('.usage')
+        try {
+          const data = parseExportData(JSON.parse(readFileSync(resolve(ctx.baseDir, file), 'utf8')))
+          const summary = await importData(ctx, data, options?.replace ? 'replace' : 'merge', !!options?.dryRun)
+          return formatImportSummary(session, summary, !!options?.dryRun)
+        } catch (err: any) {
+          logger.error(err)
+          return session.text('.error', [err.message])
+        }
+      })
+
+    ctx.command('steam.admin.migrate <dir:string>', '从 nonebot-plugin-steam-info 迁移绑定与群数据', { authority: config.commandAuthority.admin })
+      .option('platform', '-p <platform:string> 原群所在的平台', { fallback: 'onebot' })
+      .option('replace', '-r 清空现有绑定与群数据后导入')
+      .option('dryRun', '-d 只统计变更，不写入数据库')
+      .action(async ({ session, options }, dir) => {
+        if (!session) return
+        if (!dir) return session.text('.usage')
+        try {
+          const data = readNonebotData(resolve(ctx.baseDir, dir), options?.platform || 'onebot')
+          const summary = await importData(ctx, data, options?.replace ? 'replace' : 'merge', !!options?.dryRun)
+          return formatImportSummary(session, summary, !!options?.dryRun)
+        } catch (err: any) {
+          logger.error(err)
+          return session.text('.error', [err.message])
+        }
+      })
+
     let skipFirstBroadcast = config.steamDisableBroadcastOnStartup
-    const timer = ctx.setInterval(async () => {
+    const restoring = restoreStatusCache(ctx).then((restored) => {
+      // 已恢复上次保存的状态时，首次轮询可以正常比对，无需再预热
+      if (restored) skipFirstBroadcast = false
+    })
+
+    const delivery = new DeliveryQueue(ctx, { interval: config.sendInterval, retries: config.sendRetries, failThreshold: config.deliveryFailThreshold })
+    const scheduler = new PollScheduler(async () => {
+      await restoring
       if (skipFirstBroadcast) {
         await seedStatusCache(ctx)
         skipFirstBroadcast = false
         return
       }
-      await broadcast(ctx, config)
-    }, config.steamRequestInterval * 1000)
+      await broadcast(ctx, config, delivery)
+    }, { interval: config.steamRequestInterval * 1000, maxInterval: config.maxRequestInterval * 1000, jitter: 0.1 })
+
+    ctx.command('steam.admin.poll', '立即轮询一次并查看轮询状态', { authority: config.commandAuthority.admin })
+      .action(async ({ session }) => {
+        if (!session) return
+        if (scheduler.busy) await session.send(session.text('.waiting'))
+        const result = await scheduler.trigger()
+        const lines = [
+          result.ok ? session.text('.tick_ok', [result.duration]) : session.text('.tick_failed', [result.duration, result.error]),
+        ]
+        if (scheduler.failures) lines.push(session.text('.failures', [scheduler.failures]))
+        if (scheduler.nextRunAt) lines.push(session.text('.next_run', [Math.max(0, Math.round((scheduler.nextRunAt - Date.now()) / 1000))]))
+        const failing = await ctx.database.get('steam_channel', { failCount: { $gte: config.deliveryFailThreshold } })
+        for (const channel of failing) lines.push(session.text('.channel_failing', [channel.name || channel.id, channel.failCount, channel.lastError]))
+        return lines.join('\n')
+      })
+
+    const priceScheduler = new PollScheduler(() => checkPrices(ctx, config, delivery), {
+      interval: config.priceCheckInterval * 60 * 1000,
+      maxInterval: config.priceCheckInterval * 4 * 60 * 1000,
+      jitter: 0.1,
+    })
+
+    const newsScheduler = new PollScheduler(() => checkNews(ctx, config, delivery), {
+      interval: config.newsCheckInterval * 60 * 1000,
+      maxInterval: config.newsCheckInterval * 4 * 60 * 1000,
+      jitter: 0.1,
+    })
+
+    const reportScheduler = new PollScheduler(() => checkReports(ctx, config, delivery), {
+      interval: 60 * 1000,
+      maxInterval: 10 * 60 * 1000,
+      jitter: 0,
+    })
+    // 免打扰期间暂存的播报、新闻和价格通知不依赖群是否开启播报或有绑定，单独定时汇总发送
+    const digestScheduler = new PollScheduler(() => flushPending(ctx, config, delivery), {
+      interval: 60 * 1000,
+      maxInterval: 10 * 60 * 1000,
+      jitter: 0,
+    })
 
-    ctx.on('dispose', () => clearInterval(timer as unknown as NodeJS.Timeout))
+    scheduler.start()
+    priceScheduler.start()
+    newsScheduler.start()
+    reportScheduler.start()
+    digestScheduler.start()
+    ctx.on('dispose', () => {
+      scheduler.stop()
+      priceScheduler.stop()
+      newsScheduler.stop()
+      reportScheduler.stop()
+      digestScheduler.stop()
+    })
   })
 }
 
@@ -223,17 +920,162 @@ async function resolveSteamId(ctx: Context, session: Session, target?: string):
     || (target ? h.parse(target).find(el => el.type === 'at') : undefined)
 
   if (atElement?.attrs?.id) {
-    const bind = await ctx.database.get('steam_bind', { userId: atElement.attrs.id, channelId: session.channelId })
-    if (bind.length) return bind[0].steamId
-  } else if (target && /^\d+$/.test(target.trim())) {
-    return ctx.steam.getSteamId(target.trim())
+    const bind = pickDefaultBind(await getUserBinds(ctx, atElement.attrs.id, session.channelId))
+    if (bind) return bind.steamId
+  } else if (target?.trim()) {
+    const own = findBind(await getUserBinds(ctx, session.userId, session.channelId), target.trim())
+    return own ? own.steamId : (await ctx.steam.getSteamId(target.trim())) ?? null
   } else {
-    const bind = await ctx.database.get('steam_bind', { userId: session.userId, channelId: session.channelId })
-    if (bind.length) return bind[0].steamId
+    const bind = pickDefaultBind(await getUserBinds(ctx, session.userId, session.channelId))
+    if (bind) return bind.steamId
   }
   return null
 }
 
+async function getUserBinds(ctx: Context, userId?: string, channelId?: string): Promise<SteamBind[]> {
+  if (!userId || !channelId) return []
+  const binds = await ctx.database.get('steam_bind', { userId, channelId: [channelId, GLOBAL_CHANNEL] })
+  return binds.sort((a, b) => Number(a.channelId === GLOBAL_CHANNEL) - Number(b.channelId === GLOBAL_CHANNEL))
+}
+
+async function getChannelBinds(ctx: Context, channelIds: string[]): Promise<SteamBind[]> {
+  if (!channelIds.length) return []
+  const binds = await ctx.database.get('steam_bind', { channelId: channelIds })
+  const optins = await ctx.database.get('steam_optin', { channelId: channelIds })
+  if (!optins.length) return binds
+
+  const globals = await ctx.database.get('steam_bind', { userId: [...new Set(optins.map(o => o.userId))], channelId: GLOBAL_CHANNEL })
+  for (const optin of optins) {
+    for (const bind of globals) {
+      if (bind.userId !== optin.userId) continue
+      if (binds.some(b => b.channelId === optin.channelId && b.userId === bind.userId && b.steamId === bind.steamId)) continue
+      binds.push({ ...bind, channelId: optin.channelId })
+    }
+  }
+  return binds
+}
+
+async function joinChannel(ctx: Context, userId?: string, channelId?: string) {
+  if (!userId || !channelId) return
+  const existing = await ctx.database.get('steam_optin', { userId, channelId })
+  if (!existing.length) await ctx.database.create('steam_optin', { userId, channelId })
+}
+
+function formatImportSummary(session: Session, summary: ImportSummary, dryRun: boolean): string {
+  const { binds, optins, channels, removed } = summary
+  const lines = [
+    session.text(dryRun ? '.dry_run' : '.done'),
+    session.text('.summary_binds', [binds.added, binds.updated, binds.skipped]),
+    session.text('.summary_optins', [optins.added, optins.skipped]),
+    session.text('.summary_channels', [channels.added, channels.updated, channels.skipped]),
+  ]
+  if (removed.binds || removed.optins || removed.channels) lines.push(session.text('.summary_removed', [removed.binds, removed.optins, removed.channels]))
+  return lines.join('\n')
+}
+
+function pickDefaultBind(binds: SteamBind[]): SteamBind | undefined {
+  return binds.find(b => b.isDefault) || binds[0]
+}
+
+function findBind(binds: SteamBind[], account: string): SteamBind | undefined {
+  const key = account.toLowerCase()
+  return binds.find(b => b.label && b.label.toLowerCase() === key)
+    || binds.find(b => b.steamId === account)
+    || (/^\d{1,2}$/.test(account) ? binds[Number(account) - 1] : undefined)
+}
+
+function formatAccounts(session: Session, binds: SteamBind[]): string {
+  return binds.map((bind, index) => {
+    const tags = [
+      bind.isDefault && session.text('commands.steam.accounts.messages.tag_default'),
+      bind.channelId === GLOBAL_CHANNEL && session.text('commands.steam.accounts.messages.tag_global'),
+      bind.verified && session.text('commands.steam.accounts.messages.tag_verified'),
+    ].filter(Boolean).map(tag => `[${tag}]`).join('')
+    return `${index + 1}. ${bind.label ? `${bind.label} ` : ''}${bind.steamId} ${tags}`.trim()
+  }).join('\n')
+}
+
+function getChannelLanguage(config: Config, channel?: SteamChannel): Language {
+  return LANGUAGES.find(lang => lang === channel?.language) || config.language
+}
+
+function getChannelConfig(config: Config, channel?: SteamChannel): Config {
+  return {
+    ...config,
+    startBroadcastType: BROADCAST_TYPES.find(type => type === channel?.startBroadcastType) || config.startBroadcastType,
+    enablePushDelay: channel?.enablePushDelay ?? config.enablePushDelay,
+    replaceWallpaperEmoji: channel?.replaceWallpaperEmoji ?? config.replaceWallpaperEmoji,
+    gameBlacklist: channel?.gameBlacklist ?? config.gameBlacklist,
+    gameWhitelist: channel?.gameWhitelist ?? config.gameWhitelist,
+    rejoinDebounce: channel?.rejoinDebounce ?? config.rejoinDebounce,
+    quietHours: channel?.quietHours ?? config.quietHours,
+    timezone: channel?.timezone || config.timezone,
+    enableStopBroadcast: channel?.stopBroadcast ?? config.enableStopBroadcast,
+    enableAchievementBroadcast: channel?.achievementBroadcast ?? config.enableAchievementBroadcast,
+    achievementRarityThreshold: channel?.achievementRarity ?? config.achievementRarityThreshold,
+    requireBindVerification: channel?.requireVerify ?? config.requireBindVerification,
+    language: getChannelLanguage(config, channel),
+    theme: THEMES.find(theme => theme === channel?.theme) || config.theme,
+  }
+}
+
+function parseAppidList(value: string): string[] | undefined {
+  if (parseSwitch(value) === false) return []
+  const appids = value.split(/[,，\s]+/).filter(Boolean)
+  return appids.every(appid => /^\d+$/.test(appid)) ? appids : undefined
+}
+
+function isGameAllowed(config: Config, appid?: string | number) {
+  if (appid === undefined) return true
+  if (config.gameBlacklist.includes(String(appid))) return false
+  return !config.gameWhitelist.length || config.gameWhitelist.includes(String(appid))
+}
+
+function parseQuietHours(value: string): [number, number] | undefined {
+  const match = value.match(/^(\d{1,2}):(\d{2})-(\d{1,2}):(\d{2})$/)
+  if (!match) return
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(Number)
+  if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) return
+  return [startHour * 60 + startMinute, endHour * 60 + endMinute]
+}
+
+function isQuietHours(config: Config, now: number) {
+  const range = config.quietHours && parseQuietHours(config.quietHours)
+  if (!range) return false
+  const time = DateTime.fromMillis(now).setZone(config.timezone)
+  if (!time.isValid) return false
+  const minutes = time.hour * 60 + time.minute
+  const [start, end] = range
+  // 跨午夜的时段，例如 23:00-08:00
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
+
+function requiresVerification(config: Config, channel?: SteamChannel) {
+  return channel?.requireVerify ?? config.requireBindVerification
+}
+
+function isBindActive(config: Config, channel: SteamChannel | undefined, bind: SteamBind) {
+  return !requiresVerification(config, channel) || !!bind.verified
+}
+
+function generateVerifyCode() {
+  return `STEAM-${crypto.randomBytes(3).toString('hex').toUpperCase()}`
+}
+
+async function checkVerifyCode(ctx: Context, steamId: string, code: string): Promise<boolean> {
+  const [player] = await ctx.steam.getPlayerSummaries([steamId])
+  if (player?.personaname?.toUpperCase().includes(code)) return true
+
+  const profile = await ctx.steam.getUserData(steamId)
+  return profile.description.toUpperCase().includes(code)
+}
+
+/** 按 appid 或商店搜索的第一个结果查找游戏 */
+async function findApp(ctx: Context, input: string, lang: Language): Promise<SteamApp | undefined> {
+  const appid = /^\d+$/.test(input) ? input : (await ctx.steam.searchApps(input, lang))[0]?.appid
+  return appid ? ctx.steam.getAppInfo(appid, lang) : undefined
+}
+
 async function ensureChannelMeta(ctx: Context, session: Session) {
   const channelId = session.channelId
   const existing = await ctx.database.get('steam_channel', { id: channelId })
@@ -265,6 +1107,40 @@ async function ensureChannelMeta(ctx: Context, session: Session) {
   return { ...current, ...update }
 }
 
+async function restoreStatusCache(ctx: Context): Promise<boolean> {
+  try {
+    const rows = await ctx.database.get('steam_status', {})
+    const now = Date.now()
+    statusCache.clear()
+    playMeta.clear()
+    lastSeenAt.clear()
+
+    for (const row of rows) {
+      const seenAt = row.lastSeenAt ? row.lastSeenAt.getTime() : 0
+      if (now - seenAt > STALE_TTL_MS) continue
+      statusCache.set(row.steamId, row.summary)
+      playMeta.set(row.steamId, row.meta || {})
+      lastSeenAt.set(row.steamId, seenAt)
+    }
+
+    logger.info(`restoreStatusCache: restored ${statusCache.size} player(s)`)
+    return statusCache.size > 0
+  } catch (err) {
+    logger.warn(`restoreStatusCache failed: ${err}`)
+    return false
+  }
+}
+
+async function persistStatusCache(ctx: Context, steamIds: string[]) {
+  const rows = steamIds.filter(id => statusCache.has(id)).map(id => ({
+    steamId: id,
+    summary: statusCache.get(id)!,
+    meta: playMeta.get(id) || {},
+    lastSeenAt: new Date(lastSeenAt.get(id) || Date.now()),
+  }))
+  if (rows.length) await ctx.database.upsert('steam_status', rows)
+}
+
 async function seedStatusCache(ctx: Context) {
   const binds = await ctx.database.get('steam_bind', {})
   if (!binds.length) return
@@ -277,25 +1153,242 @@ async function seedStatusCache(ctx: Context) {
     statusCache.set(player.steamid, player)
     lastSeenAt.set(player.steamid, now)
   }
+  await persistStatusCache(ctx, summaries.map(p => p.steamid))
+  await recordPlaySessions(ctx, summaries, now)
+}
+
+async function recordPlaySessions(ctx: Context, players: PlayerSummary[], now: number): Promise<Map<string, SteamSession>> {
+  const closed = new Map<string, SteamSession>()
+  if (!players.length) return closed
+
+  const open = await ctx.database.get('steam_session', { steamId: players.map(p => p.steamid), endedAt: { $exists: false } })
+  const openMap = new Map(open.map(s => [s.steamId, s]))
+
+  for (const player of players) {
+    const session = openMap.get(player.steamid)
+    const appid = player.gameextrainfo && player.gameid ? String(player.gameid) : null
+    if (session && session.appid === appid) continue
+
+    if (session) {
+      const endedAt = new Date(now)
+      await ctx.database.set('steam_session', session.id, { endedAt })
+      closed.set(player.steamid, { ...session, endedAt })
+    }
+    if (appid) {
+      await ctx.database.create('steam_session', { steamId: player.steamid, appid, gameName: player.gameextrainfo!, startedAt: new Date(now) })
+    }
+  }
+  return closed
+}
+
+async function collectPlaytime(ctx: Context, binds: SteamBind[], since: number, until: number, aliases: GameAlias[] = []): Promise<PlaytimeRank[]> {
+  const steamIds = [...new Set(binds.map(b => b.steamId))]
+  const sessions = await ctx.database.get('steam_session', {
+    steamId: steamIds,
+    startedAt: { $lt: new Date(until) },
+    $or: [{ endedAt: { $gte: new Date(since) } }, { endedAt: { $exists: false } }],
+  })
+
+  const totals = new Map<string, Map<string, number>>()
+  for (const session of sessions) {
+    const start = Math.max(session.startedAt.getTime(), since)
+    const end = Math.min(session.endedAt ? session.endedAt.getTime() : until, until)
+    if (end <= start) continue
+
+    const games = totals.get(session.steamId) || new Map<string, number>()
+    const gameName = applyGameAlias(aliases, session.appid, session.gameName).name
+    games.set(gameName, (games.get(gameName) || 0) + end - start)
+    totals.set(session.steamId, games)
+  }
+  if (!totals.size) return []
+
+  const summaries = await ctx.steam.getPlayerSummaries([...totals.keys()])
+  const summaryMap = new Map(summaries.map(p => [p.steamid, p]))
+
+  return [...totals.entries()].map(([steamId, games]) => {
+    const bind = binds.find(b => b.steamId === steamId)
+    const player = summaryMap.get(steamId)
+    const sortedGames = [...games.entries()].map(([name, duration]) => ({ name, duration })).sort((a, b) => b.duration - a.duration)
+    return {
+      steamId,
+      name: bind?.nickname || player?.personaname || steamId,
+      avatar: player?.avatarmedium || player?.avatar || '',
+      total: sortedGames.reduce((sum, g) => sum + g.duration, 0),
+      games: sortedGames,
+    }
+  }).sort((a, b) => b.total - a.total)
+}
+
+async function collectReport(ctx: Context, binds: SteamBind[], since: number, until: number, aliases: GameAlias[] = []): Promise<WeeklyReport | undefined> {
+  const members = await collectPlaytime(ctx, binds, since, until, aliases)
+  if (!members.length) return
+
+  const steamIds = members.map(m => m.steamId)
+  const nameOf = (steamId: string) => members.find(m => m.steamId === steamId)?.name || steamId
+  const sessions = await ctx.database.get('steam_session', {
+    steamId: steamIds,
+    startedAt: { $lt: new Date(until) },
+    $or: [{ endedAt: { $gte: new Date(since) } }, { endedAt: { $exists: false } }],
+  })
+
+  const games = new Map<string, { appid: string; name: string; duration: number; players: Set<string> }>()
+  let longest: WeeklyReport['longest']
+  for (const session of sessions) {
+    const duration = Math.min(session.endedAt ? session.endedAt.getTime() : until, until) - Math.max(session.startedAt.getTime(), since)
+    if (duration <= 0) continue
+    const gameName = applyGameAlias(aliases, session.appid, session.gameName).name
+    const game = games.get(session.appid) || { appid: session.appid, name: gameName, duration: 0, players: new Set<string>() }
+    game.duration += duration
+    game.players.add(session.steamId)
+    games.set(session.appid, game)
+    if (!longest || duration > longest.duration) longest = { name: nameOf(session.steamId), game: gameName, duration }
+  }
+
+  // 统计周期之前没有任何游戏记录的游戏视为新尝试的游戏
+  const played = new Set(sessions.map(s => `${s.steamId}:${s.appid}`))
+  const before = await ctx.database.get('steam_session', {
+    steamId: steamIds,
+    appid: [...games.keys()],
+    startedAt: { $lt: new Date(since) },
+  }, ['steamId', 'appid'])
+  const known = new Set(before.map(s => `${s.steamId}:${s.appid}`))
+  const newGames = [...played].filter(key => !known.has(key)).map(key => {
+    const [steamId, appid] = key.split(':')
+    return { name: nameOf(steamId), game: games.get(appid)?.name || appid }
+  })
+
+  return {
+    members,
+    games: [...games.values()].map(g => ({ ...g, players: g.players.size })).sort((a, b) => b.duration - a.duration),
+    longest,
+    newGames,
+  }
 }
 
-async function broadcast(ctx: Context, config: Config) {
+async function buildReport(ctx: Context, config: Config, channel: SteamChannel, until: number): Promise<h.Fragment | undefined> {
+  const channelConfig = getChannelConfig(config, channel)
+  const lang = channelConfig.language
+  const binds = (await getChannelBinds(ctx, [channel.id])).filter(b => isBindActive(config, channel, b))
+  if (!binds.length) return
+
+  const since = until - 7 * 24 * 60 * 60 * 1000
+  const report = await collectReport(ctx, binds, since, until, getGameAliases(channelConfig, lang))
+  if (!report) return
+
+  const format = (time: number) => DateTime.fromMillis(time).setZone(channelConfig.timezone).toFormat('MM/dd')
+  const title = translate(lang, 'drawer.report_title', [channel.name || channel.id, `${format(since)} - ${format(until)}`])
+  const image = await ctx.drawer.drawReport(title, report, lang, channelConfig.theme)
+  return typeof image === 'string' ? image : h.image(image, 'image/png')
+}
+
+/** 定时报告由 reportSchedule 单独控制，即使群内关闭了播报也照常发送 */
+async function checkReports(ctx: Context, config: Config, delivery: DeliveryQueue) {
+  const channels = await ctx.database.get('steam_channel', { reportSchedule: { $ne: '' } })
+  const now = Date.now()
+  for (const channel of channels) {
+    const fields = parseCron(channel.reportSchedule || '')
+    if (!fields) continue
+    const previous = getPreviousRun(fields, DateTime.fromMillis(now).setZone(getChannelConfig(config, channel).timezone))
+    if (!previous || previous.toMillis() <= (channel.reportSentAt?.getTime() || 0)) continue
+
+    // 先记录发送时间，生成或发送失败时也不会每分钟重试
+    await ctx.database.set('steam_channel', channel.id, { reportSentAt: new Date(now) })
+    try {
+      const content = await buildReport(ctx, config, channel, now)
+      if (content) await delivery.send(channel, content)
+    } catch (e) {
+      logger.error(`checkReports: report for ${channel.id} failed: ${e}`)
+    }
+  }
+}
+
+/** 查询游戏中玩家本次游戏期间新解锁的成就，查询后即记为已播报 */
+/** 结果以 `${steamId}:${language}` 为键 */
+async function collectAchievements(ctx: Context, config: Config, players: PlayerSummary[], languages: Map<string, Set<Language>>): Promise<Map<string, AchievementUnlock[]>> {
+  const result = new Map<string, AchievementUnlock[]>()
+  const playing = players.filter(p => p.gameextrainfo && p.gameid)
+  if (!playing.length) return result
+
+  const sessions = await ctx.database.get('steam_session', { steamId: playing.map(p => p.steamid), endedAt: { $exists: false } })
+  for (const player of playing) {
+    const session = sessions.find(s => s.steamId === player.steamid && s.appid === String(player.gameid))
+    if (!session) continue
+    try {
+      // 开始游戏最多要一个轮询周期后才会被发现
+      const since = session.startedAt.getTime() - config.steamRequestInterval * 1000
+      const [primary, ...others] = languages.get(player.steamid) || [config.language]
+      const unlocked = (await ctx.steam.getPlayerAchievements(player.steamid, session.appid, primary)).filter(a => a.unlockedAt >= since)
+      if (!unlocked.length) continue
+
+      const announced = await ctx.database.get('steam_achievement', { steamId: player.steamid, appid: session.appid, apiname: unlocked.map(a => a.apiname) })
+      const fresh = unlocked.filter(a => !announced.some(r => r.apiname === a.apiname))
+      if (!fresh.length) continue
+
+      await ctx.database.upsert('steam_achievement', fresh.map(a => ({ steamId: player.steamid, appid: a.appid, apiname: a.apiname, unlockedAt: new Date(a.unlockedAt) })))
+      result.set(`${player.steamid}:${primary}`, fresh.sort((a, b) => a.unlockedAt - b.unlockedAt))
+      for (const lang of others) {
+        const localized = await ctx.steam.getPlayerAchievements(player.steamid, session.appid, lang)
+        result.set(`${player.steamid}:${lang}`, localized.filter(a => fresh.some(f => f.apiname === a.apiname)).sort((a, b) => a.unlockedAt - b.unlockedAt))
+      }
+    } catch (e) {
+      logger.warn(`collectAchievements: ${player.steamid} failed: ${e}`)
+    }
+  }
+  return result
+}
+
+/** 按 appid 以及大厅/服务器 ID（如有）把本轮开始游戏的玩家分组 */
+function groupParties<T extends PlayerSummary>(players: T[]): T[][] {
+  const groups = new Map<string, T[]>()
+  for (const player of players) {
+    const key = `${player.gameid}:${player.lobbysteamid || player.gameserversteamid || ''}`
+    groups.set(key, [...groups.get(key) || [], player])
+  }
+  return [...groups.values()]
+}
+
+async function broadcast(ctx: Context, config: Config, delivery: DeliveryQueue) {
   try {
     const channels = await ctx.database.get('steam_channel', { enable: true })
     if (!channels.length) return
 
-    const binds = await ctx.database.get('steam_bind', { channelId: channels.map(c => c.id) })
+    const binds = await getChannelBinds(ctx, channels.map(c => c.id))
     if (!binds.length) return
 
     const steamIds = [...new Set(binds.map(b => b.steamId))]
     const currentSummaries = await ctx.steam.getPlayerSummaries(steamIds)
+    // 全部请求失败时 getPlayerSummaries 返回空数组，交给调度器退避
+    if (!currentSummaries.length) throw new Error('Steam API returned no players')
     const currentMap = new Map(currentSummaries.map(p => [p.steamid, p]))
     const now = Date.now()
+    const closedSessions = await recordPlaySessions(ctx, currentSummaries, now)
+    // 按各群的显示语言分别获取成就名称
+    const achievementLanguages = new Map<string, Set<Language>>()
+    for (const bind of binds) {
+      const channelConfig = getChannelConfig(config, channels.find(c => c.id === bind.channelId))
+      if (!channelConfig.enableAchievementBroadcast) continue
+      const languages = achievementLanguages.get(bind.steamId) || new Set<Language>()
+      languages.add(channelConfig.language)
+      achievementLanguages.set(bind.steamId, languages)
+    }
+    const unlocks = await collectAchievements(ctx, config, currentSummaries.filter(p => achievementLanguages.has(p.steamid)), achievementLanguages)
 
     for (const channel of channels) {
-      const channelBinds = binds.filter(b => b.channelId === channel.id)
+      const channelBinds = binds
+        .filter(b => b.channelId === channel.id && isBindActive(config, channel, b))
+        .filter((b, index, list) => list.findIndex(o => o.steamId === b.steamId) === index)
+      const channelConfig = getChannelConfig(config, channel)
+      const lang = channelConfig.language
+      const aliases = getGameAliases(channelConfig, lang)
+      const startMessage = (name: string, player: PlayerSummary, game: string) => {
+        const alias = applyGameAlias(aliases, player.gameid, game)
+        return alias.verb
+          ? translate(lang, 'broadcast.start_playing_alias', [name, alias.verb, alias.name])
+          : translate(lang, 'broadcast.start_playing', [name, alias.name])
+      }
       const msgs: string[] = []
-      const startGamingPlayers: (PlayerSummary & { nickname?: string })[] = []
+      const startGamingPlayers: BroadcastPlayer[] = []
+      const stopGamingPlayers: StopGamingPlayer[] = []
 
       for (const bind of channelBinds) {
         const current = currentMap.get(bind.steamId)
@@ -304,33 +1397,62 @@ async function broadcast(ctx: Context, config: Config) {
 
         const oldGame = old.gameextrainfo || null
         const newGame = current.gameextrainfo || null
-        const name = bind.nickname || current.personaname
+        const name = getDisplayName(bind, current, channelBinds)
 
         let displayGameName = newGame
         if (newGame && current.gameid) {
-          displayGameName = await ctx.steam.getLocalizedGameName(current.gameid) || newGame
+          displayGameName = await ctx.steam.getLocalizedGameName(current.gameid, lang) || newGame
         }
 
         const meta = playMeta.get(bind.steamId) || {}
+        const newAllowed = isGameAllowed(channelConfig, current.gameid)
+        const oldAllowed = isGameAllowed(channelConfig, old.gameid)
         if (newGame && !oldGame) {
-          if (!meta.lastLeftAt || meta.lastLeftGame !== newGame || (now - meta.lastLeftAt) >= 10 * 60 * 1000) {
-            msgs.push(`${name} 开始玩 ${displayGameName} 了`)
-            startGamingPlayers.push({ ...current, nickname: bind.nickname, gameextrainfo: displayGameName as string })
+          if (newAllowed && (!meta.lastLeftAt || meta.lastLeftGame !== newGame || (now - meta.lastLeftAt) >= channelConfig.rejoinDebounce * 60 * 1000)) {
+            startGamingPlayers.push({ ...current, nickname: bind.nickname, displayName: name, gameextrainfo: displayGameName as string })
           }
           playMeta.set(bind.steamId, {})
         } else if (newGame && oldGame && newGame !== oldGame) {
-          msgs.push(`${name} 开始玩 ${displayGameName} 了`)
-          startGamingPlayers.push({ ...current, nickname: bind.nickname, gameextrainfo: displayGameName as string })
+          if (newAllowed) {
+            startGamingPlayers.push({ ...current, nickname: bind.nickname, displayName: name, gameextrainfo: displayGameName as string })
+          }
           playMeta.set(bind.steamId, {})
         } else if (!newGame && oldGame) {
           playMeta.set(bind.steamId, { lastLeftAt: now, lastLeftGame: oldGame })
+          if (channelConfig.enableStopBroadcast && oldAllowed) {
+            const stoppedGame = (old.gameid && await ctx.steam.getLocalizedGameName(old.gameid, lang)) || oldGame
+            const stoppedName = applyGameAlias(aliases, old.gameid, stoppedGame).name
+            const closed = closedSessions.get(bind.steamId)
+            const duration = closed?.endedAt ? closed.endedAt.getTime() - closed.startedAt.getTime() : undefined
+            msgs.push(duration !== undefined
+              ? translate(lang, 'broadcast.stop_playing', [name, formatDuration(duration, lang), stoppedName])
+              : translate(lang, 'broadcast.stop_playing_unknown', [name, stoppedName]))
+            stopGamingPlayers.push({ ...current, nickname: bind.nickname, gameextrainfo: stoppedGame, gameid: old.gameid, duration })
+          }
         }
       }
 
+      const parties = groupParties(startGamingPlayers)
+      msgs.unshift(...parties.map(([first, ...rest]) => rest.length
+        ? translate(lang, 'broadcast.playing_together', [[first, ...rest].map(p => p.displayName).join(translate(lang, 'broadcast.name_separator')), applyGameAlias(aliases, first.gameid, first.gameextrainfo!).name])
+        : startMessage(first.displayName!, first, first.gameextrainfo!)))
+
       if (msgs.length) {
-        const botKey = channel.platform && channel.assignee ? `${channel.platform}:${channel.assignee}` : undefined
-        const bot = botKey ? ctx.bots[botKey] : Object.values(ctx.bots)[0]
-        if (bot) await sendBroadcast(ctx, config, bot, channel, msgs, startGamingPlayers, channelBinds, currentMap)
+        // 单个群发送失败不应影响状态更新，否则下次轮询会重复播报
+        await sendBroadcast(ctx, channelConfig, delivery, channel, msgs, parties, stopGamingPlayers, channelBinds, currentMap)
+          .catch(e => logger.error(`broadcast to ${channel.id} failed: ${e}`))
+      }
+
+      if (channelConfig.enableAchievementBroadcast) {
+        for (const bind of channelBinds) {
+          const player = currentMap.get(bind.steamId)
+          const items = (unlocks.get(`${bind.steamId}:${channelConfig.language}`) || []).filter(a => isGameAllowed(channelConfig, a.appid)
+            && (a.percent === undefined ? channelConfig.achievementRarityThreshold >= 100 : a.percent <= channelConfig.achievementRarityThreshold))
+          if (player && items.length) {
+            await sendAchievements(ctx, channelConfig, delivery, channel, getDisplayName(bind, player, channelBinds), player, items)
+              .catch(e => logger.error(`achievement broadcast to ${channel.id} failed: ${e}`))
+          }
+        }
       }
     }
 
@@ -346,16 +1468,29 @@ async function broadcast(ctx: Context, config: Config) {
         playMeta.delete(id)
       }
     }
+
+    await persistStatusCache(ctx, currentSummaries.map(p => p.steamid))
+    await ctx.database.remove('steam_status', { lastSeenAt: { $lt: new Date(now - STALE_TTL_MS) } })
   } catch (err) {
     logger.error(`broadcast error: ${err}`)
+    throw err
   }
 }
 
 async function sendBroadcast(
-  ctx: Context, config: Config, bot: any, channel: SteamChannel,
-  msgs: string[], startGamingPlayers: (PlayerSummary & { nickname?: string })[],
+  ctx: Context, config: Config, delivery: DeliveryQueue, channel: SteamChannel,
+  msgs: string[], parties: BroadcastPlayer[][], stopGamingPlayers: StopGamingPlayer[],
   channelBinds: SteamBind[], currentMap: Map<string, PlayerSummary>,
 ) {
+  const lang = config.language
+  const aliases = getGameAliases(config, lang)
+  if (isQuietHours(config, Date.now())) {
+    const createdAt = new Date()
+    for (const message of msgs) await ctx.database.create('steam_pending', { channelId: channel.id, message, createdAt })
+    return
+  }
+
+  const send = (content: h.Fragment) => delivery.send(channel, content)
   const configured = config.startBroadcastType || 'text_image'
   const broadcastType = ['all', 'part', 'none'].includes(configured) ? configured : 'part'
   const startMode = ['all', 'part', 'none'].includes(configured) ? 'text_image' : configured
@@ -364,23 +1499,27 @@ async function sendBroadcast(
     try {
       const channelPlayers = channelBinds.map(b => currentMap.get(b.steamId)).filter(Boolean) as PlayerSummary[]
       const parentAvatar = channel.avatar ? Buffer.from(channel.avatar, 'base64') : await ctx.drawer.getDefaultAvatar()
-      const image = await ctx.drawer.drawFriendsStatus(parentAvatar, channel.name || channel.id, channelPlayers, channelBinds)
+      const image = await ctx.drawer.drawFriendsStatus(parentAvatar, channel.name || channel.id, channelPlayers, channelBinds, lang, aliases, config.theme)
       if (image) {
         const imgElement = typeof image === 'string' ? image : h.image(image, 'image/png')
-        await bot.sendMessage(channel.id, withText ? msgs.join('\n') + imgElement : imgElement)
+        // 文字回退时与播报文本分行显示
+        const separator = typeof image === 'string' ? '\n' : ''
+        await send(withText ? msgs.join('\n') + separator + imgElement : imgElement)
         return
       }
     } catch (e) {
       logger.error(`broadcast draw list failed: ${e}`)
     }
-    if (withText) await bot.sendMessage(channel.id, msgs.join('\n'))
+    if (withText) await send(msgs.join('\n'))
   }
 
   const sendPlayerImages = async () => {
-    for (const p of startGamingPlayers) {
+    for (const party of parties) {
       try {
-        const imgBuf = await ctx.drawer.drawStartGaming(p, p.nickname)
-        if (imgBuf) await bot.sendMessage(channel.id, typeof imgBuf === 'string' ? imgBuf : h.image(imgBuf, 'image/png'))
+        const imgBuf = party.length > 1
+          ? await ctx.drawer.drawParty(party, party.map(p => p.displayName || p.personaname), lang, aliases, config.theme)
+          : await ctx.drawer.drawStartGaming(party[0], party[0].nickname, lang, aliases, config.theme)
+        if (imgBuf) await send(typeof imgBuf === 'string' ? imgBuf : h.image(imgBuf, 'image/png'))
       } catch (e) {
         logger.error(`broadcast drawStartGaming failed: ${e}`)
       }
@@ -388,20 +1527,202 @@ async function sendBroadcast(
         await new Promise(res => setTimeout(res, Math.floor(Math.random() * 6000) + 4000))
       }
     }
+    for (const p of stopGamingPlayers) {
+      try {
+        const imgBuf = await ctx.drawer.drawStopGaming(p, p.duration, p.nickname, lang, aliases, config.theme)
+        if (imgBuf) await send(typeof imgBuf === 'string' ? imgBuf : h.image(imgBuf, 'image/png'))
+      } catch (e) {
+        logger.error(`broadcast drawStopGaming failed: ${e}`)
+      }
+      if (config.enablePushDelay) {
+        await new Promise(res => setTimeout(res, Math.floor(Math.random() * 6000) + 4000))
+      }
+    }
   }
 
   if (broadcastType === 'none') {
-    await bot.sendMessage(channel.id, msgs.join('\n'))
+    await send(msgs.join('\n'))
   } else if (broadcastType === 'all') {
     await sendListImage(true)
-  } else if (startGamingPlayers.length > 0) {
+  } else if (parties.length + stopGamingPlayers.length > 0) {
     switch (startMode) {
       case 'list': await sendListImage(true); break
-      case 'text_image': await bot.sendMessage(channel.id, msgs.join('\n')); await sendPlayerImages(); break
+      case 'text_image':
+        await send(msgs.join('\n'))
+        // 无法渲染时卡片只会以文字回退，与上面的播报文本重复
+        if (ctx.drawer.canRender) await sendPlayerImages()
+        break
       case 'image': await sendPlayerImages(); break
-      default: await bot.sendMessage(channel.id, msgs.join('\n'))
+      default: await send(msgs.join('\n'))
     }
   } else {
-    await bot.sendMessage(channel.id, msgs.join('\n'))
+    await send(msgs.join('\n'))
+  }
+}
+
+async function flushPending(ctx: Context, config: Config, delivery: DeliveryQueue) {
+  const pending = await ctx.database.get('steam_pending', {})
+  if (!pending.length) return
+  const channels = await ctx.database.get('steam_channel', { id: [...new Set(pending.map(p => p.channelId))] })
+  // 群数据已被删除的积压消息无法再投递，直接清理
+  const orphaned = pending.filter(p => !channels.some(c => c.id === p.channelId))
+  if (orphaned.length) await ctx.database.remove('steam_pending', { id: orphaned.map(p => p.id) })
+  const now = Date.now()
+  for (const channel of channels) {
+    const channelConfig = getChannelConfig(config, channel)
+    if (isQuietHours(channelConfig, now)) continue
+    await sendDigest(ctx, channelConfig, delivery, channel, pending.filter(p => p.channelId === channel.id))
+  }
+}
+
+async function sendDigest(ctx: Context, config: Config, delivery: DeliveryQueue, channel: SteamChannel, pending: SteamPending[]) {
+  const lines = pending
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    .map(p => `[${DateTime.fromJSDate(p.createdAt).setZone(config.timezone).toFormat('HH:mm')}] ${p.message}`)
+  const sent = await delivery.send(channel, [translate(config.language, 'broadcast.quiet_digest', [pending.length]), ...lines].join('\n'))
+  if (!sent) return
+  await ctx.database.remove('steam_pending', { id: pending.map(p => p.id) })
+}
+
+/** 记录最新价格；开始打折或折扣加深时返回 sale，低于已记录的史低时返回 low */
+async function recordPrice(ctx: Context, region: string, appid: string, price: PriceOverview): Promise<'sale' | 'low' | undefined> {
+  const [previous] = await ctx.database.get('steam_price', { appid, region })
+  const comparable = previous && previous.currency === price.currency
+  const now = new Date()
+  const isLowest = !comparable || price.final < previous.lowest
+  await ctx.database.upsert('steam_price', [{
+    appid,
+    region,
+    currency: price.currency,
+    initial: price.initial,
+    final: price.final,
+    discount: price.discount_percent,
+    formatted: price.final_formatted,
+    lowest: isLowest ? price.final : previous.lowest,
+    lowestAt: isLowest ? now : previous.lowestAt,
+    checkedAt: now,
+  }])
+  // 首次记录的价格只作为基准，不通知
+  if (!comparable || !price.discount_percent) return
+  if (price.final < previous.lowest) return 'low'
+  if (price.discount_percent > previous.discount) return 'sale'
+}
+
+async function checkPrices(ctx: Context, config: Config, delivery: DeliveryQueue) {
+  const watches = await ctx.database.get('steam_watch', {})
+  if (!watches.length) return
+  const channels = await ctx.database.get('steam_channel', { id: [...new Set(watches.map(w => w.channelId))] })
+
+  for (const appid of new Set(watches.map(w => w.appid))) {
+    const price = await ctx.steam.getPriceOverview(appid, config.priceRegion)
+    if (!price) continue
+    const event = await recordPrice(ctx, config.priceRegion, appid, price)
+    if (!event) continue
+
+    for (const watch of watches.filter(w => w.appid === appid)) {
+      const channel = channels.find(c => c.id === watch.channelId)
+      if (!channel) continue
+      const channelConfig = getChannelConfig(config, channel)
+      const lang = channelConfig.language
+      const app = await ctx.steam.getAppInfo(appid, lang)
+      if (!app) continue
+      const text = translate(lang, event === 'low' ? 'broadcast.price_historical_low' : 'broadcast.price_on_sale', [app.name, price.final_formatted, price.discount_percent])
+
+      if (isQuietHours(channelConfig, Date.now())) {
+        await ctx.database.create('steam_pending', { channelId: channel.id, message: text, createdAt: new Date() })
+        continue
+      }
+      try {
+        const image = await ctx.drawer.drawPriceAlert(app, price, event === 'low', lang, channelConfig.theme)
+        await delivery.send(channel, typeof image === 'string' ? image : h.image(image, 'image/png'))
+      } catch (e) {
+        logger.error(`checkPrices drawPriceAlert failed: ${e}`)
+        await delivery.send(channel, `${text}\nhttps://store.steampowered.com/app/${appid}`)
+      }
+    }
+  }
+}
+
+async function saveNewsState(ctx: Context, appid: string, items: NewsItem[]) {
+  const latest = items.reduce<NewsItem | undefined>((a, b) => !a || b.date > a.date ? b : a, undefined)
+  await ctx.database.upsert('steam_news', [{
+    appid,
+    lastGid: latest?.gid || '',
+    lastDate: new Date(latest?.date || 0),
+    checkedAt: new Date(),
+  }])
+}
+
+async function checkNews(ctx: Context, config: Config, delivery: DeliveryQueue) {
+  const subscriptions = await ctx.database.get('steam_news_subscription', {})
+  if (!subscriptions.length) return
+  const appids = [...new Set(subscriptions.map(s => s.appid))]
+  const channels = await ctx.database.get('steam_channel', { id: [...new Set(subscriptions.map(s => s.channelId))] })
+  const states = await ctx.database.get('steam_news', { appid: appids })
+
+  // 每个游戏只请求一次，再分发给所有订阅了它的群
+  for (const appid of appids) {
+    const items = await ctx.steam.getNewsForApp(appid)
+    if (!items?.length) continue
+    const state = states.find(s => s.appid === appid)
+    const fresh = state
+      ? items.filter(item => item.date > state.lastDate.getTime() && item.gid !== state.lastGid).sort((a, b) => a.date - b.date).slice(-3)
+      : []
+    await saveNewsState(ctx, appid, items)
+
+    for (const item of fresh) {
+      for (const subscription of subscriptions.filter(s => s.appid === appid)) {
+        const channel = channels.find(c => c.id === subscription.channelId)
+        if (channel) await sendNews(ctx, getChannelConfig(config, channel), delivery, channel, item)
+      }
+    }
+  }
+}
+
+async function sendNews(ctx: Context, config: Config, delivery: DeliveryQueue, channel: SteamChannel, news: NewsItem) {
+  const lang = config.language
+  const app = await ctx.steam.getAppInfo(news.appid, lang)
+  const gameName = app?.name || news.appid
+  if (isQuietHours(config, Date.now())) {
+    await ctx.database.create('steam_pending', { channelId: channel.id, message: `${translate(lang, 'broadcast.news_title', [gameName, news.title])} ${news.url}`, createdAt: new Date() })
+    return
+  }
+
+  if (config.newsBroadcastType === 'card' && app) {
+    try {
+      const image = await ctx.drawer.drawNews(app, news, lang, config.theme)
+      await delivery.send(channel, typeof image === 'string' ? image : [h.image(image, 'image/png'), h.text(news.url)])
+      return
+    } catch (e) {
+      logger.error(`sendNews drawNews failed: ${e}`)
+    }
+  }
+  await delivery.send(channel, [translate(lang, 'broadcast.news_title', [gameName, news.title]), news.contents, news.url].filter(Boolean).join('\n'))
+}
+
+async function sendAchievements(
+  ctx: Context, config: Config, delivery: DeliveryQueue, channel: SteamChannel,
+  name: string, player: PlayerSummary, achievements: AchievementUnlock[],
+) {
+  const lang = config.language
+  const gameName = applyGameAlias(getGameAliases(config, lang), player.gameid, await ctx.steam.getLocalizedGameName(player.gameid!, lang) || player.gameextrainfo!).name
+  const texts = achievements.map(a => a.percent !== undefined
+    ? translate(lang, 'broadcast.achievement_unlocked_rarity', [name, gameName, a.name, a.percent.toFixed(1)])
+    : translate(lang, 'broadcast.achievement_unlocked', [name, gameName, a.name]))
+
+  if (isQuietHours(config, Date.now())) {
+    const createdAt = new Date()
+    for (const message of texts) await ctx.database.create('steam_pending', { channelId: channel.id, message, createdAt })
+    return
+  }
+
+  for (const [index, achievement] of achievements.entries()) {
+    try {
+      const image = await ctx.drawer.drawAchievement(player, achievement, gameName, name, lang, config.theme)
+      await delivery.send(channel, typeof image === 'string' ? image : h.image(image, 'image/png'))
+    } catch (e) {
+      logger.error(`broadcast drawAchievement failed: ${e}`)
+      await delivery.send(channel, texts[index])
+    }
   }
 }
@@ -0,0 +1,73 @@
+export interface ApiKeyState {
+  key: string
+  success: number
+  failure: number
+  totalLatency: number
+  lastError?: string
+  lastUsedAt?: number
+  cooldownUntil: number
+  backoff: number
+}
+
+const MIN_COOLDOWN_MS = 60 * 1000
+const MAX_COOLDOWN_MS = 60 * 60 * 1000
+// 401/403 通常是 key 被吊销或无权限，429 是触发频率限制
+const COOLDOWN_STATUS = [401, 403, 429]
+
+export function maskKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}****${key.slice(-4)}` : '****'
+}
+
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status
+  if (typeof status === 'number') return status
+  const match = String(error?.message || '').match(/HTTP (\d{3})/)
+  return match ? Number(match[1]) : undefined
+}
+
+export class KeyPool {
+  private states: ApiKeyState[]
+  private cursor = 0
+
+  constructor(keys: string[]) {
+    this.states = [...new Set(keys)].map(key => ({ key, success: 0, failure: 0, totalLatency: 0, cooldownUntil: 0, backoff: 0 }))
+  }
+
+  get size() {
+    return this.states.length
+  }
+
+  /** 本次请求依次尝试的 key：可用的 key 按轮询顺序排列，冷却中的 key 按冷却结束时间排在最后 */
+  order(now = Date.now()): ApiKeyState[] {
+    const rotated = [...this.states.slice(this.cursor), ...this.states.slice(0, this.cursor)]
+    this.cursor = this.states.length ? (this.cursor + 1) % this.states.length : 0
+    const available = rotated.filter(s => s.cooldownUntil <= now)
+    const cooling = rotated.filter(s => s.cooldownUntil > now).sort((a, b) => a.cooldownUntil - b.cooldownUntil)
+    return available.length ? available : cooling.slice(0, 1)
+  }
+
+  reportSuccess(state: ApiKeyState, latency: number) {
+    state.success++
+    state.totalLatency += latency
+    state.lastUsedAt = Date.now()
+    state.backoff = 0
+    state.cooldownUntil = 0
+  }
+
+  reportFailure(state: ApiKeyState, latency: number, error: any) {
+    state.failure++
+    state.totalLatency += latency
+    state.lastUsedAt = Date.now()
+    state.lastError = error?.message || String(error)
+
+    const status = getErrorStatus(error)
+    if (status && COOLDOWN_STATUS.includes(status)) {
+      state.backoff = Math.min(state.backoff ? state.backoff * 2 : MIN_COOLDOWN_MS, MAX_COOLDOWN_MS)
+      state.cooldownUntil = Date.now() + state.backoff
+    }
+  }
+
+  stats(): ApiKeyState[] {
+    return this.states.map(s => ({ ...s }))
+  }
+}
@@ -0,0 +1,600 @@
+export default {
+  'steam-info': {
+    config: {
+      steamApiKey: 'Steam API keys (multiple supported)',
+      proxy: 'Proxy address, e.g. http://127.0.0.1:7890',
+      steamRequestInterval: 'Polling interval (seconds)',
+      maxRequestInterval: 'Maximum polling interval (seconds) while the Steam API keeps failing',
+      appCacheTTL: 'Game metadata cache lifetime (days)',
+      libraryCacheTTL: 'Player library cache lifetime (hours)',
+      priceRegion: 'Store region code used by price watches',
+      priceCheckInterval: 'Price watch check interval (minutes)',
+      newsCheckInterval: 'News subscription check interval (minutes)',
+      newsBroadcastType: 'How news posts are sent',
+      startBroadcastType: 'Broadcast mode (all/part/none/list/text_image/image/text)',
+      steamDisableBroadcastOnStartup: 'Skip the first broadcast on startup (only warm up the cache)',
+      enableStopBroadcast: 'Announce when someone stops playing, with session duration',
+      enableAchievementBroadcast: 'Announce achievements unlocked while in game',
+      achievementRarityThreshold: 'Only announce achievements whose global unlock rate is at most this percentage',
+      rejoinDebounce: 'Debounce (minutes) before re-announcing the same game after a quick restart',
+      sendInterval: 'Minimum delay between two messages from the same bot (ms)',
+      sendRetries: 'Retries for a failed send before trying another bot on the same platform',
+      deliveryFailThreshold: 'Consecutive send failures before a channel is marked as failing',
+      gameAliases: 'Game alias table (appid → display name, status text, emoji)',
+      gameBlacklist: 'Appids that are never announced',
+      gameWhitelist: 'Only announce these appids (empty means no restriction)',
+      quietHours: 'Quiet hours, e.g. 23:00-08:00; updates are held back and sent as a digest afterwards',
+      timezone: 'Time zone used for quiet hours',
+      requireBindVerification: 'Require bind verification by default',
+      enableIpCheck: 'Enable IP check',
+      fonts: {
+        regular: 'Regular font path',
+        light: 'Light font path',
+        bold: 'Bold font path',
+      },
+      commandAuthority: {
+        bind: 'Authority for the bind command',
+        unbind: 'Authority for the unbind command',
+        info: 'Authority for the info command',
+        check: 'Authority for the check command',
+        enable: 'Authority for the enable command',
+        disable: 'Authority for the disable command',
+        update: 'Authority for the update command',
+        nickname: 'Authority for the nickname command',
+        stats: 'Authority for the stats command',
+        library: 'Authority for the common/whoowns commands',
+        watch: 'Authority for the watch/unwatch commands',
+        news: 'Authority for the news commands',
+        report: 'Authority for the report command',
+        verify: 'Authority for the verify command',
+        language: 'Authority for the language command',
+        accounts: 'Authority for the account management commands',
+        config: 'Authority for the broadcast settings command',
+        admin: 'Authority for the admin commands',
+      },
+      language: 'Default display language (broadcast text, images and store game names)',
+      theme: 'Image theme (dark/light/compact)',
+      templateDir: 'Directory of custom HTML templates',
+      renderConcurrency: 'Maximum number of images rendered at once',
+      renderTimeout: 'Render timeout per image (ms)',
+      renderFailThreshold: 'Consecutive render failures before temporarily falling back to text',
+    },
+    broadcast: {
+      start_playing: '{0} started playing {1}',
+      start_playing_alias: '{0} {1} {2}',
+      playing_together: '{0} are playing {1} together',
+      name_separator: ', ',
+      stop_playing: '{0} stopped playing {2} after {1}',
+      stop_playing_unknown: '{0} stopped playing {1}',
+      quiet_digest: '{0} update(s) during quiet hours:',
+      achievement_unlocked: '{0} unlocked "{2}" in {1}',
+      achievement_unlocked_rarity: '{0} unlocked "{2}" in {1} ({3}% of players have it)',
+      price_on_sale: '{0} is on sale: {1} (-{2}%)',
+      price_historical_low: '{0} hit a historical low: {1} (-{2}%)',
+      news_title: '[{0}] {1}',
+    },
+    duration: {
+      minutes: '{0} min',
+      hours: '{0} h',
+      hours_minutes: '{0} h {1} min',
+    },
+    persona_states: {
+      0: 'Offline',
+      1: 'Online',
+      2: 'Busy',
+      3: 'Away',
+      4: 'Snooze',
+      5: 'Looking to trade',
+      6: 'Looking to play',
+    },
+    drawer: {
+      playing: 'Now playing',
+      wallpaper_status: 'Now 🛫',
+      played_for: 'Played for {0}',
+      stopped: 'Stopped playing',
+      unknown_game: 'Unknown Game',
+      unknown_state: 'Unknown',
+      in_game: 'In-Game',
+      online_friends: 'Online Friends',
+      offline: 'Offline',
+      online: 'Online',
+      friends: 'Friends',
+      recent_games: 'Recent Activity',
+      play_time: '{0} hrs on record',
+      last_played: 'Last played on {0}',
+      currently_playing: 'Currently In-Game',
+      playtime_ranking: 'Playtime Ranking',
+      report_title: '{0} Weekly Report · {1}',
+      report_summary: '{0} members played {1} in total',
+      report_players: 'played by {0}',
+      report_longest: 'Longest Session',
+      report_longest_session: '{0} played {1} for {2} straight',
+      report_new_games: 'New Games Tried',
+      top_games: 'Top Games',
+      achievement_unlocked: '{0} unlocked an achievement in {1}',
+      achievement_rarity: '{0}% of players have this achievement',
+      price_on_sale: 'On sale',
+      price_historical_low: 'Historical low',
+      price_original: 'was {0}',
+      playing_together: '{0} friends playing together',
+      recent_playtime: '{0} hrs past 2 weeks',
+      common_games: '{0} share {1} games',
+      level: 'Level {0}',
+      owned_games: '{0} games',
+      badges: '{0} badges',
+    },
+  },
+  commands: {
+    steam: {
+      description: 'Steam status queries and broadcasts',
+      bind: {
+        description: 'Bind a Steam account',
+        usage: 'Usage: steam bind <Steam ID, friend code, profile URL or custom URL> [label] [-g global] [-v verify]',
+        api_error: 'Failed to reach the Steam API. Please try again later.',
+        label_taken: 'The label {0} is already used by another of your accounts.',
+        global_bound: 'Bound globally and enabled in this channel. Send steam join in other channels to enable it there.',
+        bind_success: 'Bound successfully! {1} (Steam ID: {0})',
+        private_profile: 'Note: this profile or its game details are private, so the game status cannot be broadcast. Make "My profile" and "Game details" public in the Steam privacy settings.',
+        verify_required: 'This channel requires ownership verification: temporarily add {0} to your Steam persona name or profile summary, then send steam verify.',
+        already_bound: 'You have already bound this account!',
+        invalid_id: 'Please enter a valid Steam ID or friend code.',
+        id_not_found: 'Steam account not found. Please check the ID, friend code or URL.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam bind <Steam ID, friend code, profile URL or custom URL> [label] [-g global] [-v verify]',
+          api_error: 'Failed to reach the Steam API. Please try again later.',
+          label_taken: 'The label {0} is already used by another of your accounts.',
+          global_bound: 'Bound globally and enabled in this channel. Send steam join in other channels to enable it there.',
+          bind_success: 'Bound successfully! {1} (Steam ID: {0})',
+          private_profile: 'Note: this profile or its game details are private, so the game status cannot be broadcast. Make "My profile" and "Game details" public in the Steam privacy settings.',
+          verify_required: 'This channel requires ownership verification: temporarily add {0} to your Steam persona name or profile summary, then send steam verify.',
+          already_bound: 'You have already bound this account!',
+          invalid_id: 'Please enter a valid Steam ID or friend code.',
+          id_not_found: 'Steam account not found. Please check the ID, friend code or URL.',
+          error: 'An error occurred.',
+        },
+      },
+      unbind: {
+        description: 'Unbind your Steam account',
+        usage: 'Usage: steam unbind [label|Steam ID|index] [-g global]',
+        choose_account: 'You have bound several accounts, please specify which one to unbind:\n{0}',
+        account_not_found: 'Account {0} not found.',
+        unbind_success: 'Unbound successfully.',
+        not_bound: 'You have not bound a Steam account yet.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam unbind [label|Steam ID|index] [-g global]',
+          choose_account: 'You have bound several accounts, please specify which one to unbind:\n{0}',
+          account_not_found: 'Account {0} not found.',
+          unbind_success: 'Unbound successfully.',
+          not_bound: 'You have not bound a Steam account yet.',
+          error: 'An error occurred.',
+        },
+      },
+      info: {
+        description: 'Show a Steam profile',
+        usage: 'Usage: steam info [@user|Steam ID|profile URL]',
+        profile_unavailable: 'Unable to load the Steam profile. The account does not exist or the Steam API is unavailable.',
+        user_not_found: 'User not found.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam info [@user|Steam ID|profile URL]',
+          profile_unavailable: 'Unable to load the Steam profile. The account does not exist or the Steam API is unavailable.',
+          user_not_found: 'User not found.',
+          error: 'An error occurred.',
+        },
+      },
+      check: {
+        description: 'Show the status of bound friends',
+        usage: 'Usage: steam check',
+        no_binds: 'Nobody in this channel has bound a Steam account yet.',
+        api_error: 'Failed to connect to the Steam API.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam check',
+          no_binds: 'Nobody in this channel has bound a Steam account yet.',
+          api_error: 'Failed to connect to the Steam API.',
+          error: 'An error occurred.',
+        },
+      },
+      enable: {
+        description: 'Enable broadcasts',
+        usage: 'Usage: steam enable',
+        enable_success: 'Broadcasts enabled for this channel.',
+        stop_enable_success: 'Stop-playing broadcasts enabled for this channel.',
+        verify_enable_success: 'This channel now requires bind verification; unverified accounts will no longer be broadcast.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam enable',
+          enable_success: 'Broadcasts enabled for this channel.',
+          stop_enable_success: 'Stop-playing broadcasts enabled for this channel.',
+          verify_enable_success: 'This channel now requires bind verification; unverified accounts will no longer be broadcast.',
+          error: 'An error occurred.',
+        },
+      },
+      disable: {
+        description: 'Disable broadcasts',
+        usage: 'Usage: steam disable',
+        disable_success: 'Broadcasts disabled for this channel.',
+        stop_disable_success: 'Stop-playing broadcasts disabled for this channel.',
+        verify_disable_success: 'This channel no longer requires bind verification.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam disable',
+          disable_success: 'Broadcasts disabled for this channel.',
+          stop_disable_success: 'Stop-playing broadcasts disabled for this channel.',
+          verify_disable_success: 'This channel no longer requires bind verification.',
+          error: 'An error occurred.',
+        },
+      },
+      update: {
+        description: 'Update channel info',
+        usage: 'Usage: steam update <name> [@image]',
+        update_success: 'Channel info updated.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam update <name> [@image]',
+          update_success: 'Channel info updated.',
+          error: 'An error occurred.',
+        },
+      },
+      nickname: {
+        description: 'Set your display nickname',
+        usage: 'Usage: steam nickname <nickname>',
+        not_bound: 'You have not bound a Steam account yet.',
+        nickname_set: 'Nickname set to {0}.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam nickname <nickname>',
+          not_bound: 'You have not bound a Steam account yet.',
+          nickname_set: 'Nickname set to {0}.',
+          error: 'An error occurred.',
+        },
+      },
+      stats: {
+        description: 'Show the playtime leaderboard',
+        usage: 'Usage: steam stats [day|week|month]',
+        no_binds: 'Nobody in this channel has bound a Steam account yet.',
+        no_data: 'No play sessions recorded in this period yet.',
+        period_day: 'Playtime today',
+        period_week: 'Playtime this week',
+        period_month: 'Playtime this month',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam stats [day|week|month]',
+          no_binds: 'Nobody in this channel has bound a Steam account yet.',
+          no_data: 'No play sessions recorded in this period yet.',
+          period_day: 'Playtime today',
+          period_week: 'Playtime this week',
+          period_month: 'Playtime this month',
+          error: 'An error occurred.',
+        },
+      },
+      verify: {
+        description: 'Verify ownership of your Steam account',
+        usage: 'Usage: steam verify [label|Steam ID|index]',
+        account_not_found: 'Account {0} not found.',
+        not_bound: 'You have not bound a Steam account yet.',
+        already_verified: 'Your Steam account is already verified.',
+        code_issued: 'Temporarily add {0} to your Steam persona name or profile summary, then send steam verify again.',
+        code_not_found: 'Verification code {0} was not found in your persona name or profile summary. Please update it and try again in a moment.',
+        verify_success: 'Verified! You can change your persona name and summary back now.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam verify [label|Steam ID|index]',
+          account_not_found: 'Account {0} not found.',
+          not_bound: 'You have not bound a Steam account yet.',
+          already_verified: 'Your Steam account is already verified.',
+          code_issued: 'Temporarily add {0} to your Steam persona name or profile summary, then send steam verify again.',
+          code_not_found: 'Verification code {0} was not found in your persona name or profile summary. Please update it and try again in a moment.',
+          verify_success: 'Verified! You can change your persona name and summary back now.',
+          error: 'An error occurred.',
+        },
+      },
+      language: {
+        description: 'Set the display language of this channel',
+        usage: 'Usage: steam language [zh-CN|en-US]',
+        current: 'Current display language of this channel: {0}',
+        set_success: 'Display language of this channel set to {0}.',
+        unsupported: 'Unsupported language. Available: {0}',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam language [zh-CN|en-US]',
+          current: 'Current display language of this channel: {0}',
+          set_success: 'Display language of this channel set to {0}.',
+          unsupported: 'Unsupported language. Available: {0}',
+          error: 'An error occurred.',
+        },
+      },
+      accounts: {
+        description: 'List your bound Steam accounts',
+        usage: 'Usage: steam accounts',
+        not_bound: 'You have not bound a Steam account yet.',
+        tag_default: 'default',
+        tag_global: 'global',
+        tag_verified: 'verified',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam accounts',
+          not_bound: 'You have not bound a Steam account yet.',
+          tag_default: 'default',
+          tag_global: 'global',
+          tag_verified: 'verified',
+          error: 'An error occurred.',
+        },
+      },
+      default: {
+        description: 'Set your default Steam account',
+        usage: 'Usage: steam default <label|Steam ID|index>',
+        account_not_found: 'Account {0} not found.',
+        default_set: '{0} is now your default account.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam default <label|Steam ID|index>',
+          account_not_found: 'Account {0} not found.',
+          default_set: '{0} is now your default account.',
+          error: 'An error occurred.',
+        },
+      },
+      join: {
+        description: 'Enable your global accounts in this channel',
+        usage: 'Usage: steam join',
+        no_global_binds: 'You have no global accounts yet, bind one with steam bind -g.',
+        join_success: 'Enabled your {0} global account(s) in this channel.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam join',
+          no_global_binds: 'You have no global accounts yet, bind one with steam bind -g.',
+          join_success: 'Enabled your {0} global account(s) in this channel.',
+          error: 'An error occurred.',
+        },
+      },
+      leave: {
+        description: 'Disable your global accounts in this channel',
+        usage: 'Usage: steam leave',
+        leave_success: 'Your global accounts are disabled in this channel.',
+        not_joined: 'Your global accounts are not enabled in this channel.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam leave',
+          leave_success: 'Your global accounts are disabled in this channel.',
+          not_joined: 'Your global accounts are not enabled in this channel.',
+          error: 'An error occurred.',
+        },
+      },
+      config: {
+        description: 'View or change broadcast settings for this channel',
+        usage: 'steam.config lists all settings\nsteam.config <key> shows one setting\nsteam.config <key> <value> overrides it for this channel\nsteam.config -r <key> restores the global default',
+        source_global: 'global default',
+        source_channel: 'this channel',
+        unknown_key: 'Unknown setting. Available settings: {0}',
+        invalid_value: '{1} is not a valid value for {0}',
+        set_success: 'Set {0} to {1} for this channel',
+        reset_success: 'Restored {0} to the global default for this channel',
+        messages: {
+          usage: 'steam.config lists all settings\nsteam.config <key> shows one setting\nsteam.config <key> <value> overrides it for this channel\nsteam.config -r <key> restores the global default',
+          source_global: 'global default',
+          source_channel: 'this channel',
+          unknown_key: 'Unknown setting. Available settings: {0}',
+          invalid_value: '{1} is not a valid value for {0}',
+          set_success: 'Set {0} to {1} for this channel',
+          reset_success: 'Restored {0} to the global default for this channel',
+        },
+      },
+      admin: {
+        description: 'Plugin administration',
+        keys: {
+          description: 'Show API key health',
+          status_ok: 'available',
+          status_cooldown: 'cooling down ({0}s left)',
+          stats: '{0} succeeded, {1} failed, average latency {2}ms',
+          last_error: 'Last error: {0}',
+          no_keys: 'No API keys configured',
+          messages: {
+            status_ok: 'available',
+            status_cooldown: 'cooling down ({0}s left)',
+            stats: '{0} succeeded, {1} failed, average latency {2}ms',
+            last_error: 'Last error: {0}',
+            no_keys: 'No API keys configured',
+          },
+        },
+        poll: {
+          description: 'Poll now and show the scheduler status',
+          waiting: 'A poll is already running, waiting for it to finish…',
+          tick_ok: 'Poll succeeded in {0}ms',
+          tick_failed: 'Poll failed after {0}ms: {1}',
+          failures: '{0} consecutive failure(s), backing off',
+          next_run: 'Next poll in {0}s',
+          channel_failing: 'Channel {0} failed {1} deliveries in a row: {2}',
+          messages: {
+            waiting: 'A poll is already running, waiting for it to finish…',
+            tick_ok: 'Poll succeeded in {0}ms',
+            tick_failed: 'Poll failed after {0}ms: {1}',
+            failures: '{0} consecutive failure(s), backing off',
+            next_run: 'Next poll in {0}s',
+            channel_failing: 'Channel {0} failed {1} deliveries in a row: {2}',
+          },
+        },
+        export: {
+          description: 'Export bindings and channel data as JSON',
+          success: 'Exported {0} bindings, {1} opt-ins and {2} channels to {3}',
+          error: 'Export failed: {0}',
+          messages: {
+            success: 'Exported {0} bindings, {1} opt-ins and {2} channels to {3}',
+            error: 'Export failed: {0}',
+          },
+        },
+        import: {
+          description: 'Import bindings and channel data from an exported JSON file',
+          usage: 'Usage: steam admin import <file> [-r] [-d]; -r replaces existing data, -d previews the changes',
+          done: 'Import finished:',
+          dry_run: 'Dry run, nothing was written:',
+          summary_binds: 'Bindings: {0} added, {1} updated, {2} skipped',
+          summary_optins: 'Global account opt-ins: {0} added, {1} skipped',
+          summary_channels: 'Channels: {0} added, {1} updated, {2} skipped',
+          summary_removed: 'Removed {0} existing bindings, {1} opt-ins and {2} channels',
+          error: 'Import failed: {0}',
+          messages: {
+            usage: 'Usage: steam admin import <file> [-r] [-d]; -r replaces existing data, -d previews the changes',
+            done: 'Import finished:',
+            dry_run: 'Dry run, nothing was written:',
+            summary_binds: 'Bindings: {0} added, {1} updated, {2} skipped',
+            summary_optins: 'Global account opt-ins: {0} added, {1} skipped',
+            summary_channels: 'Channels: {0} added, {1} updated, {2} skipped',
+            summary_removed: 'Removed {0} existing bindings, {1} opt-ins and {2} channels',
+            error: 'Import failed: {0}',
+          },
+        },
+        migrate: {
+          description: 'Migrate bindings and channel data from nonebot-plugin-steam-info',
+          usage: 'Usage: steam admin migrate <data dir> [-p platform] [-r] [-d]; the directory must contain bind_data.json',
+          done: 'Import finished:',
+          dry_run: 'Dry run, nothing was written:',
+          summary_binds: 'Bindings: {0} added, {1} updated, {2} skipped',
+          summary_optins: 'Global account opt-ins: {0} added, {1} skipped',
+          summary_channels: 'Channels: {0} added, {1} updated, {2} skipped',
+          summary_removed: 'Removed {0} existing bindings, {1} opt-ins and {2} channels',
+          error: 'Import failed: {0}',
+          messages: {
+            usage: 'Usage: steam admin migrate <data dir> [-p platform] [-r] [-d]; the directory must contain bind_data.json',
+            done: 'Import finished:',
+            dry_run: 'Dry run, nothing was written:',
+            summary_binds: 'Bindings: {0} added, {1} updated, {2} skipped',
+            summary_optins: 'Global account opt-ins: {0} added, {1} skipped',
+            summary_channels: 'Channels: {0} added, {1} updated, {2} skipped',
+            summary_removed: 'Removed {0} existing bindings, {1} opt-ins and {2} channels',
+            error: 'Import failed: {0}',
+          },
+        },
+      },
+      common: {
+        description: 'Show games owned by everyone mentioned',
+        usage: 'Usage: steam common @user1 [@user2 ...] (mention one user to compare with yourself)',
+        not_bound: '{0} has not bound a Steam account yet.',
+        library_unavailable: 'Could not read the library of {0}; their game details may be private.',
+        no_common: 'You have no games in common.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam common @user1 [@user2 ...] (mention one user to compare with yourself)',
+          not_bound: '{0} has not bound a Steam account yet.',
+          library_unavailable: 'Could not read the library of {0}; their game details may be private.',
+          no_common: 'You have no games in common.',
+          error: 'An error occurred.',
+        },
+      },
+      whoowns: {
+        description: 'Show who in this channel owns a game',
+        usage: 'Usage: steam whoowns <game name|appid>',
+        no_binds: 'Nobody in this channel has bound a Steam account yet.',
+        not_found: 'Nobody in this channel owns {0}.',
+        result: '{0}: owned by {1}/{2}',
+        owner: '{0}  {1}',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam whoowns <game name|appid>',
+          no_binds: 'Nobody in this channel has bound a Steam account yet.',
+          not_found: 'Nobody in this channel owns {0}.',
+          result: '{0}: owned by {1}/{2}',
+          owner: '{0}  {1}',
+          error: 'An error occurred.',
+        },
+      },
+      watch: {
+        description: 'Watch a game price and notify this channel on sales and historical lows',
+        usage: 'Usage: steam watch [game name|appid]; without arguments lists watched games',
+        empty: 'This channel is not watching any game prices yet.',
+        list: 'This channel is watching {0} game prices:',
+        not_found: 'Could not find the game {0}.',
+        already: 'This channel is already watching {0}.',
+        success: 'Now watching {0}, currently {1}.',
+        success_no_price: 'Now watching {0}; it is currently free or not sold in this region.',
+        success_unknown: 'Now watching {0}; the current price is unavailable right now.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam watch [game name|appid]; without arguments lists watched games',
+          empty: 'This channel is not watching any game prices yet.',
+          list: 'This channel is watching {0} game prices:',
+          not_found: 'Could not find the game {0}.',
+          already: 'This channel is already watching {0}.',
+          success: 'Now watching {0}, currently {1}.',
+          success_no_price: 'Now watching {0}; it is currently free or not sold in this region.',
+          success_unknown: 'Now watching {0}; the current price is unavailable right now.',
+          error: 'An error occurred.',
+        },
+      },
+      unwatch: {
+        description: 'Stop watching a game price',
+        usage: 'Usage: steam unwatch <game name|appid>',
+        not_watching: 'This channel is not watching {0}.',
+        success: 'Stopped watching {0}.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam unwatch <game name|appid>',
+          not_watching: 'This channel is not watching {0}.',
+          success: 'Stopped watching {0}.',
+          error: 'An error occurred.',
+        },
+      },
+      news: {
+        description: 'List game news subscriptions of this channel',
+        empty: 'This channel has no game news subscriptions yet.',
+        list: 'This channel follows news for {0} games:',
+        error: 'An error occurred.',
+        messages: {
+          empty: 'This channel has no game news subscriptions yet.',
+          list: 'This channel follows news for {0} games:',
+          error: 'An error occurred.',
+        },
+        subscribe: {
+          description: 'Subscribe to game news and patch notes',
+          usage: 'Usage: steam news subscribe <game name|appid>',
+          not_found: 'Could not find the game {0}.',
+          already: 'This channel already follows news for {0}.',
+          success: 'Subscribed to news and patch notes for {0}.',
+          error: 'An error occurred.',
+          messages: {
+            usage: 'Usage: steam news subscribe <game name|appid>',
+            not_found: 'Could not find the game {0}.',
+            already: 'This channel already follows news for {0}.',
+            success: 'Subscribed to news and patch notes for {0}.',
+            error: 'An error occurred.',
+          },
+        },
+        unsubscribe: {
+          description: 'Unsubscribe from game news',
+          usage: 'Usage: steam news unsubscribe <game name|appid>',
+          not_subscribed: 'This channel does not follow news for {0}.',
+          success: 'Unsubscribed from news for {0}.',
+          error: 'An error occurred.',
+          messages: {
+            usage: 'Usage: steam news unsubscribe <game name|appid>',
+            not_subscribed: 'This channel does not follow news for {0}.',
+            success: 'Unsubscribed from news for {0}.',
+            error: 'An error occurred.',
+          },
+        },
+      },
+      report: {
+        description: 'Schedule a weekly report for this channel',
+        usage: 'Usage: steam report <cron expression>, e.g. steam report 0 9 * * 1 for every Monday at 9:00; -o turns it off, -n generates one now',
+        current: 'The weekly report is scheduled at {0} ({1}).',
+        not_set: 'No weekly report is scheduled for this channel.',
+        invalid: 'Invalid cron expression: {0}. Use "minute hour day month weekday".',
+        success: 'Weekly report scheduled at {0} ({1}).',
+        disabled: 'Weekly report turned off for this channel.',
+        no_data: 'No play sessions in the last 7 days.',
+        error: 'An error occurred.',
+        messages: {
+          usage: 'Usage: steam report <cron expression>, e.g. steam report 0 9 * * 1 for every Monday at 9:00; -o turns it off, -n generates one now',
+          current: 'The weekly report is scheduled at {0} ({1}).',
+          not_set: 'No weekly report is scheduled for this channel.',
+          invalid: 'Invalid cron expression: {0}. Use "minute hour day month weekday".',
+          success: 'Weekly report scheduled at {0} ({1}).',
+          disabled: 'Weekly report turned off for this channel.',
+          no_data: 'No play sessions in the last 7 days.',
+          error: 'An error occurred.',
+        },
+      },
+    },
+  },
+}
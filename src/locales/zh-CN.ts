@@ -4,8 +4,28 @@ export default {
       steamApiKey: 'Steam API Key（支持多个）',
       proxy: '代理地址，例如 http://127.0.0.1:7890',
       steamRequestInterval: '轮询间隔（秒）',
+      maxRequestInterval: 'Steam API 连续失败时的最大轮询间隔（秒）',
+      appCacheTTL: '游戏信息缓存有效期（天）',
+      libraryCacheTTL: '玩家游戏库缓存有效期（小时）',
+      priceRegion: '价格监控的商店地区代码',
+      priceCheckInterval: '价格监控检查间隔（分钟）',
+      newsCheckInterval: '新闻订阅检查间隔（分钟）',
+      newsBroadcastType: '新闻推送方式',
       startBroadcastType: '播报方式（all/part/none/list/text_image/image/text）',
       steamDisableBroadcastOnStartup: '启动时禁用首次播报（仅预热缓存）',
+      enableStopBroadcast: '播报停止游戏及本次游戏时长',
+      enableAchievementBroadcast: '游戏中解锁成就时播报',
+      achievementRarityThreshold: '只播报全球解锁率不高于该值（百分比）的成就',
+      rejoinDebounce: '重新进入同一游戏的防抖时间（分钟）',
+      sendInterval: '同一个机器人两次发送之间的最小间隔（毫秒）',
+      sendRetries: '发送失败时的重试次数，仍失败会尝试同平台的其他机器人',
+      deliveryFailThreshold: '连续发送失败多少次后将群标记为投递失败',
+      gameAliases: '游戏别名表（appid → 显示名称、状态文本、表情）',
+      gameBlacklist: '不播报的游戏 appid',
+      gameWhitelist: '仅播报的游戏 appid，留空表示不限制',
+      quietHours: '免打扰时段，例如 23:00-08:00',
+      timezone: '免打扰时段所用的时区',
+      requireBindVerification: '默认要求绑定验证',
       enableIpCheck: '启用IP检测',
       fonts: {
         regular: '常规字体路径',
@@ -21,7 +41,87 @@ export default {
         disable: '禁用播报命令权限',
         update: '更新群信息命令权限',
         nickname: '设置昵称命令权限',
+        stats: '游戏时长排行命令权限',
+        library: '游戏库对比命令权限',
+        watch: '价格监控命令权限',
+        news: '新闻订阅命令权限',
+        report: '定时周报命令权限',
+        verify: '绑定验证命令权限',
+        language: '显示语言命令权限',
+        accounts: '多帐号管理命令权限',
+        config: '群播报设置命令权限',
+        admin: '管理命令权限',
       },
+      language: '默认显示语言（播报文本、图片和商店游戏名）',
+      theme: '图片主题（dark/light/compact）',
+      templateDir: '自定义模板目录',
+      renderConcurrency: '同时渲染的图片数量上限',
+      renderTimeout: '单张图片的渲染超时时间（毫秒）',
+      renderFailThreshold: '连续渲染失败多少次后暂时改用文字输出',
+    },
+    broadcast: {
+      start_playing: '{0} 开始玩 {1} 了',
+      start_playing_alias: '{0} {1} {2}',
+      playing_together: '{0} 一起在玩 {1}',
+      name_separator: '、',
+      stop_playing: '{0} 玩了 {1} 的 {2} 后下线了',
+      stop_playing_unknown: '{0} 不玩 {1} 了',
+      quiet_digest: '免打扰期间共有 {0} 条动态：',
+      achievement_unlocked: '{0} 在 {1} 中解锁了成就「{2}」',
+      achievement_unlocked_rarity: '{0} 在 {1} 中解锁了成就「{2}」（全球 {3}% 的玩家拥有）',
+      price_on_sale: '{0} 正在打折：{1}（-{2}%）',
+      price_historical_low: '{0} 达到史低价：{1}（-{2}%）',
+      news_title: '【{0}】{1}',
+    },
+    duration: {
+      minutes: '{0} 分',
+      hours: '{0} 小时',
+      hours_minutes: '{0} 小时 {1} 分',
+    },
+    persona_states: {
+      0: '离线',
+      1: '在线',
+      2: '忙碌',
+      3: '离开',
+      4: '打盹',
+      5: '寻求交易',
+      6: '寻求游戏',
+    },
+    drawer: {
+      playing: '正在玩',
+      wallpaper_status: '正在🛫',
+      played_for: '玩了 {0}',
+      stopped: '停止游戏',
+      unknown_game: '未知游戏',
+      unknown_state: '未知',
+      in_game: '游戏中',
+      online_friends: '在线好友',
+      offline: '离线',
+      online: '在线',
+      friends: '好友',
+      recent_games: '最近游戏',
+      play_time: '总时数 {0} 小时',
+      last_played: '最后运行日期：{0}',
+      currently_playing: '当前正在游戏',
+      playtime_ranking: '时长排行',
+      report_title: '{0} 周报 · {1}',
+      report_summary: '{0} 位成员共游戏 {1}',
+      report_players: '{0} 人玩过',
+      report_longest: '最长单次游戏',
+      report_longest_session: '{0} 在 {1} 中连续游戏了 {2}',
+      report_new_games: '新尝试的游戏',
+      top_games: '热门游戏',
+      achievement_unlocked: '{0} 在 {1} 中解锁了成就',
+      achievement_rarity: '全球 {0}% 的玩家拥有',
+      price_on_sale: '正在打折',
+      price_historical_low: '史低价',
+      price_original: '原价 {0}',
+      playing_together: '{0} 人一起在玩',
+      recent_playtime: '过去 2 周 {0} 小时',
+      common_games: '{0} 共同拥有 {1} 款游戏',
+      level: '等级 {0}',
+      owned_games: '{0} 款游戏',
+      badges: '{0} 枚徽章',
     },
   },
   commands: {
@@ -29,29 +129,43 @@ export default {
       description: 'Steam 信息查询与播报',
       bind: {
         description: '绑定 Steam ID',
-        usage: '用法：steam bind <steamId或好友码>',
-        bind_success: '绑定成功！Steam ID: {0}',
-        already_bound: '您已经绑定过帐号了！',
+        usage: '用法：steam bind <Steam ID、好友码、个人资料链接或自定义 URL> [备注名] [-g 全局绑定] [-v 验证]',
+        api_error: '连接 Steam API 失败，请稍后再试。',
+        label_taken: '备注名 {0} 已被你的其他帐号使用。',
+        global_bound: '已全局绑定，并已在本群启用。在其他群发送 steam join 即可启用。',
+        bind_success: '绑定成功！{1}（Steam ID: {0}）',
+        private_profile: '注意：该帐号的资料或游戏详情未公开，将无法播报游戏状态。请在 Steam 隐私设置中公开“我的个人资料”和“游戏详情”。',
+        verify_required: '本群要求验证帐号所有权：请将 {0} 临时加入 Steam 昵称或个人资料简介，然后发送 steam verify 完成验证。',
+        already_bound: '您已经绑定过这个帐号了！',
         invalid_id: '请输入有效的 Steam ID或好友码。',
-        id_not_found: '无法找到该 Steam ID或好友码。',
+        id_not_found: '无法找到该 Steam 帐号，请检查输入的 ID、好友码或链接。',
         error: '发生错误。',
         messages: {
-          usage: '用法：steam bind <steamId或好友码>',
-          bind_success: '绑定成功！Steam ID: {0}',
-          already_bound: '您已经绑定过帐号了！',
+          usage: '用法：steam bind <Steam ID、好友码、个人资料链接或自定义 URL> [备注名] [-g 全局绑定] [-v 验证]',
+          api_error: '连接 Steam API 失败，请稍后再试。',
+          label_taken: '备注名 {0} 已被你的其他帐号使用。',
+          global_bound: '已全局绑定，并已在本群启用。在其他群发送 steam join 即可启用。',
+          bind_success: '绑定成功！{1}（Steam ID: {0}）',
+          private_profile: '注意：该帐号的资料或游戏详情未公开，将无法播报游戏状态。请在 Steam 隐私设置中公开“我的个人资料”和“游戏详情”。',
+          verify_required: '本群要求验证帐号所有权：请将 {0} 临时加入 Steam 昵称或个人资料简介，然后发送 steam verify 完成验证。',
+          already_bound: '您已经绑定过这个帐号了！',
           invalid_id: '请输入有效的 Steam ID或好友码。',
-          id_not_found: '无法找到该 Steam ID或好友码。',
+          id_not_found: '无法找到该 Steam 帐号，请检查输入的 ID、好友码或链接。',
           error: '发生错误。',
         },
       },
       unbind: {
         description: '解绑 Steam ID',
-        usage: '用法：steam unbind',
+        usage: '用法：steam unbind [备注名|Steam ID|序号] [-g 全局绑定]',
+        choose_account: '你绑定了多个帐号，请指定要解绑的帐号：\n{0}',
+        account_not_found: '未找到帐号 {0}。',
         unbind_success: '解绑成功。',
         not_bound: '你还没有绑定 Steam。',
         error: '发生错误。',
         messages: {
-          usage: '用法：steam unbind',
+          usage: '用法：steam unbind [备注名|Steam ID|序号] [-g 全局绑定]',
+          choose_account: '你绑定了多个帐号，请指定要解绑的帐号：\n{0}',
+          account_not_found: '未找到帐号 {0}。',
           unbind_success: '解绑成功。',
           not_bound: '你还没有绑定 Steam。',
           error: '发生错误。',
@@ -59,11 +173,13 @@ export default {
       },
       info: {
         description: '查看 Steam 资料',
-        usage: '用法：steam info [@user|steamId]',
+        usage: '用法：steam info [@user|Steam ID|个人资料链接]',
+        profile_unavailable: '无法获取 Steam 资料，账户不存在或 Steam API 暂时不可用。',
         user_not_found: '未找到用户信息。',
         error: '发生错误。',
         messages: {
-          usage: '用法：steam info [@user|steamId]',
+          usage: '用法：steam info [@user|Steam ID|个人资料链接]',
+          profile_unavailable: '无法获取 Steam 资料，账户不存在或 Steam API 暂时不可用。',
           user_not_found: '未找到用户信息。',
           error: '发生错误。',
         },
@@ -85,10 +201,14 @@ export default {
         description: '启用播报',
         usage: '用法：steam enable',
         enable_success: '已开启本群播报。',
+        stop_enable_success: '已开启本群停止游戏播报。',
+        verify_enable_success: '本群已要求绑定验证，未验证的帐号将不再播报。',
         error: '发生错误。',
         messages: {
           usage: '用法：steam enable',
           enable_success: '已开启本群播报。',
+          stop_enable_success: '已开启本群停止游戏播报。',
+          verify_enable_success: '本群已要求绑定验证，未验证的帐号将不再播报。',
           error: '发生错误。',
         },
       },
@@ -96,10 +216,14 @@ export default {
         description: '禁用播报',
         usage: '用法：steam disable',
         disable_success: '已关闭本群播报。',
+        stop_disable_success: '已关闭本群停止游戏播报。',
+        verify_disable_success: '本群已不再要求绑定验证。',
         error: '发生错误。',
         messages: {
           usage: '用法：steam disable',
           disable_success: '已关闭本群播报。',
+          stop_disable_success: '已关闭本群停止游戏播报。',
+          verify_disable_success: '本群已不再要求绑定验证。',
           error: '发生错误。',
         },
       },
@@ -127,7 +251,350 @@ export default {
           error: '发生错误。',
         },
       },
+      stats: {
+        description: '查看游戏时长排行',
+        usage: '用法：steam stats [day|week|month]',
+        no_binds: '本群尚无绑定用户。',
+        no_data: '该时间段内还没有游戏记录。',
+        period_day: '今日游戏时长',
+        period_week: '本周游戏时长',
+        period_month: '本月游戏时长',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam stats [day|week|month]',
+          no_binds: '本群尚无绑定用户。',
+          no_data: '该时间段内还没有游戏记录。',
+          period_day: '今日游戏时长',
+          period_week: '本周游戏时长',
+          period_month: '本月游戏时长',
+          error: '发生错误。',
+        },
+      },
+      verify: {
+        description: '验证 Steam 帐号所有权',
+        usage: '用法：steam verify [备注名|Steam ID|序号]',
+        account_not_found: '未找到帐号 {0}。',
+        not_bound: '你还没有绑定 Steam。',
+        already_verified: '你的 Steam 帐号已经通过验证。',
+        code_issued: '请将 {0} 临时加入 Steam 昵称或个人资料简介，然后再次发送 steam verify。',
+        code_not_found: '未在 Steam 昵称或个人资料简介中找到验证码 {0}，请修改后稍等片刻再试。',
+        verify_success: '验证成功！现在可以将昵称和简介改回原样了。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam verify [备注名|Steam ID|序号]',
+          account_not_found: '未找到帐号 {0}。',
+          not_bound: '你还没有绑定 Steam。',
+          already_verified: '你的 Steam 帐号已经通过验证。',
+          code_issued: '请将 {0} 临时加入 Steam 昵称或个人资料简介，然后再次发送 steam verify。',
+          code_not_found: '未在 Steam 昵称或个人资料简介中找到验证码 {0}，请修改后稍等片刻再试。',
+          verify_success: '验证成功！现在可以将昵称和简介改回原样了。',
+          error: '发生错误。',
+        },
+      },
+      language: {
+        description: '设置本群显示语言',
+        usage: '用法：steam language [zh-CN|en-US]',
+        current: '本群当前显示语言：{0}',
+        set_success: '本群显示语言已设置为 {0}。',
+        unsupported: '不支持该语言，可选：{0}',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam language [zh-CN|en-US]',
+          current: '本群当前显示语言：{0}',
+          set_success: '本群显示语言已设置为 {0}。',
+          unsupported: '不支持该语言，可选：{0}',
+          error: '发生错误。',
+        },
+      },
+      accounts: {
+        description: '查看已绑定的 Steam 帐号',
+        usage: '用法：steam accounts',
+        not_bound: '你还没有绑定 Steam。',
+        tag_default: '默认',
+        tag_global: '全局',
+        tag_verified: '已验证',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam accounts',
+          not_bound: '你还没有绑定 Steam。',
+          tag_default: '默认',
+          tag_global: '全局',
+          tag_verified: '已验证',
+          error: '发生错误。',
+        },
+      },
+      default: {
+        description: '设置默认 Steam 帐号',
+        usage: '用法：steam default <备注名|Steam ID|序号>',
+        account_not_found: '未找到帐号 {0}。',
+        default_set: '已将 {0} 设为默认帐号。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam default <备注名|Steam ID|序号>',
+          account_not_found: '未找到帐号 {0}。',
+          default_set: '已将 {0} 设为默认帐号。',
+          error: '发生错误。',
+        },
+      },
+      join: {
+        description: '在本群启用全局绑定的帐号',
+        usage: '用法：steam join',
+        no_global_binds: '你还没有全局绑定的帐号，请使用 steam bind -g 绑定。',
+        join_success: '已在本群启用你的 {0} 个全局绑定帐号。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam join',
+          no_global_binds: '你还没有全局绑定的帐号，请使用 steam bind -g 绑定。',
+          join_success: '已在本群启用你的 {0} 个全局绑定帐号。',
+          error: '发生错误。',
+        },
+      },
+      leave: {
+        description: '在本群停用全局绑定的帐号',
+        usage: '用法：steam leave',
+        leave_success: '已在本群停用你的全局绑定帐号。',
+        not_joined: '你的全局绑定帐号未在本群启用。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam leave',
+          leave_success: '已在本群停用你的全局绑定帐号。',
+          not_joined: '你的全局绑定帐号未在本群启用。',
+          error: '发生错误。',
+        },
+      },
+      config: {
+        description: '查看或修改本群播报设置',
+        usage: 'steam.config 列出全部设置\nsteam.config <设置项> 查看单项\nsteam.config <设置项> <值> 修改本群设置\nsteam.config -r <设置项> 恢复为全局默认值',
+        source_global: '全局默认',
+        source_channel: '本群设置',
+        unknown_key: '未知的设置项，可用设置项：{0}',
+        invalid_value: '设置项 {0} 不接受值 {1}',
+        set_success: '已将本群的 {0} 设置为 {1}',
+        reset_success: '已将本群的 {0} 恢复为全局默认值',
+        messages: {
+          usage: 'steam.config 列出全部设置\nsteam.config <设置项> 查看单项\nsteam.config <设置项> <值> 修改本群设置\nsteam.config -r <设置项> 恢复为全局默认值',
+          source_global: '全局默认',
+          source_channel: '本群设置',
+          unknown_key: '未知的设置项，可用设置项：{0}',
+          invalid_value: '设置项 {0} 不接受值 {1}',
+          set_success: '已将本群的 {0} 设置为 {1}',
+          reset_success: '已将本群的 {0} 恢复为全局默认值',
+        },
+      },
+      admin: {
+        description: 'Steam 插件管理',
+        keys: {
+          description: '查看 API Key 状态',
+          status_ok: '可用',
+          status_cooldown: '冷却中（剩余 {0} 秒）',
+          stats: '成功 {0} 次，失败 {1} 次，平均耗时 {2}ms',
+          last_error: '最近错误：{0}',
+          no_keys: '未配置 API Key',
+          messages: {
+            status_ok: '可用',
+            status_cooldown: '冷却中（剩余 {0} 秒）',
+            stats: '成功 {0} 次，失败 {1} 次，平均耗时 {2}ms',
+            last_error: '最近错误：{0}',
+            no_keys: '未配置 API Key',
+          },
+        },
+        poll: {
+          description: '立即轮询一次并查看轮询状态',
+          waiting: '上一次轮询仍在进行，等待其完成…',
+          tick_ok: '轮询成功，耗时 {0}ms',
+          tick_failed: '轮询失败，耗时 {0}ms：{1}',
+          failures: '已连续失败 {0} 次，正在退避',
+          next_run: '下次轮询将在 {0} 秒后进行',
+          channel_failing: '群 {0} 已连续发送失败 {1} 次：{2}',
+          messages: {
+            waiting: '上一次轮询仍在进行，等待其完成…',
+            tick_ok: '轮询成功，耗时 {0}ms',
+            tick_failed: '轮询失败，耗时 {0}ms：{1}',
+            failures: '已连续失败 {0} 次，正在退避',
+            next_run: '下次轮询将在 {0} 秒后进行',
+            channel_failing: '群 {0} 已连续发送失败 {1} 次：{2}',
+          },
+        },
+        export: {
+          description: '导出绑定与群数据为 JSON',
+          success: '已导出 {0} 条绑定、{1} 条全局帐号启用记录、{2} 个群到 {3}',
+          error: '导出失败：{0}',
+          messages: {
+            success: '已导出 {0} 条绑定、{1} 条全局帐号启用记录、{2} 个群到 {3}',
+            error: '导出失败：{0}',
+          },
+        },
+        import: {
+          description: '从导出的 JSON 导入绑定与群数据',
+          usage: '用法：steam admin import <文件> [-r] [-d]，-r 清空后导入，-d 只预览变更',
+          done: '导入完成：',
+          dry_run: '试运行，以下变更未写入数据库：',
+          summary_binds: '绑定：新增 {0}，更新 {1}，跳过 {2}',
+          summary_optins: '全局帐号启用记录：新增 {0}，跳过 {1}',
+          summary_channels: '群：新增 {0}，更新 {1}，跳过 {2}',
+          summary_removed: '清除原有绑定 {0} 条、全局帐号启用记录 {1} 条、群 {2} 个',
+          error: '导入失败：{0}',
+          messages: {
+            usage: '用法：steam admin import <文件> [-r] [-d]，-r 清空后导入，-d 只预览变更',
+            done: '导入完成：',
+            dry_run: '试运行，以下变更未写入数据库：',
+            summary_binds: '绑定：新增 {0}，更新 {1}，跳过 {2}',
+            summary_optins: '全局帐号启用记录：新增 {0}，跳过 {1}',
+            summary_channels: '群：新增 {0}，更新 {1}，跳过 {2}',
+            summary_removed: '清除原有绑定 {0} 条、全局帐号启用记录 {1} 条、群 {2} 个',
+            error: '导入失败：{0}',
+          },
+        },
+        migrate: {
+          description: '从 nonebot-plugin-steam-info 迁移绑定与群数据',
+          usage: '用法：steam admin migrate <数据目录> [-p 平台] [-r] [-d]，目录中需包含 bind_data.json',
+          done: '导入完成：',
+          dry_run: '试运行，以下变更未写入数据库：',
+          summary_binds: '绑定：新增 {0}，更新 {1}，跳过 {2}',
+          summary_optins: '全局帐号启用记录：新增 {0}，跳过 {1}',
+          summary_channels: '群：新增 {0}，更新 {1}，跳过 {2}',
+          summary_removed: '清除原有绑定 {0} 条、全局帐号启用记录 {1} 条、群 {2} 个',
+          error: '导入失败：{0}',
+          messages: {
+            usage: '用法：steam admin migrate <数据目录> [-p 平台] [-r] [-d]，目录中需包含 bind_data.json',
+            done: '导入完成：',
+            dry_run: '试运行，以下变更未写入数据库：',
+            summary_binds: '绑定：新增 {0}，更新 {1}，跳过 {2}',
+            summary_optins: '全局帐号启用记录：新增 {0}，跳过 {1}',
+            summary_channels: '群：新增 {0}，更新 {1}，跳过 {2}',
+            summary_removed: '清除原有绑定 {0} 条、全局帐号启用记录 {1} 条、群 {2} 个',
+            error: '导入失败：{0}',
+          },
+        },
+      },
+      common: {
+        description: '查看多人共同拥有的游戏',
+        usage: '用法：steam common @用户1 [@用户2 ...]（只 @ 一人时与自己比较）',
+        not_bound: '{0} 还没有绑定 Steam 账号。',
+        library_unavailable: '无法获取 {0} 的游戏库，可能是游戏详情未公开。',
+        no_common: '你们没有共同拥有的游戏。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam common @用户1 [@用户2 ...]（只 @ 一人时与自己比较）',
+          not_bound: '{0} 还没有绑定 Steam 账号。',
+          library_unavailable: '无法获取 {0} 的游戏库，可能是游戏详情未公开。',
+          no_common: '你们没有共同拥有的游戏。',
+          error: '发生错误。',
+        },
+      },
+      whoowns: {
+        description: '查看本群谁拥有某个游戏',
+        usage: '用法：steam whoowns <游戏名|appid>',
+        no_binds: '本群还没有人绑定 Steam 账号。',
+        not_found: '本群没有人拥有 {0}。',
+        result: '{0}：{1}/{2} 人拥有',
+        owner: '{0}  {1}',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam whoowns <游戏名|appid>',
+          no_binds: '本群还没有人绑定 Steam 账号。',
+          not_found: '本群没有人拥有 {0}。',
+          result: '{0}：{1}/{2} 人拥有',
+          owner: '{0}  {1}',
+          error: '发生错误。',
+        },
+      },
+      watch: {
+        description: '监控游戏价格，打折或史低时通知本群',
+        usage: '用法：steam watch [游戏名|appid]，不带参数时列出本群监控的游戏',
+        empty: '本群还没有监控任何游戏的价格。',
+        list: '本群正在监控 {0} 款游戏的价格：',
+        not_found: '找不到游戏 {0}。',
+        already: '本群已经在监控 {0} 的价格了。',
+        success: '已开始监控 {0}，当前价格 {1}。',
+        success_no_price: '已开始监控 {0}，该游戏目前免费或未在当前地区发售。',
+        success_unknown: '已开始监控 {0}，暂时无法获取当前价格。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam watch [游戏名|appid]，不带参数时列出本群监控的游戏',
+          empty: '本群还没有监控任何游戏的价格。',
+          list: '本群正在监控 {0} 款游戏的价格：',
+          not_found: '找不到游戏 {0}。',
+          already: '本群已经在监控 {0} 的价格了。',
+          success: '已开始监控 {0}，当前价格 {1}。',
+          success_no_price: '已开始监控 {0}，该游戏目前免费或未在当前地区发售。',
+          success_unknown: '已开始监控 {0}，暂时无法获取当前价格。',
+          error: '发生错误。',
+        },
+      },
+      unwatch: {
+        description: '取消监控游戏价格',
+        usage: '用法：steam unwatch <游戏名|appid>',
+        not_watching: '本群没有监控 {0}。',
+        success: '已取消监控 {0}。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam unwatch <游戏名|appid>',
+          not_watching: '本群没有监控 {0}。',
+          success: '已取消监控 {0}。',
+          error: '发生错误。',
+        },
+      },
+      news: {
+        description: '查看本群订阅的游戏新闻',
+        empty: '本群还没有订阅任何游戏的新闻。',
+        list: '本群订阅了 {0} 款游戏的新闻：',
+        error: '发生错误。',
+        messages: {
+          empty: '本群还没有订阅任何游戏的新闻。',
+          list: '本群订阅了 {0} 款游戏的新闻：',
+          error: '发生错误。',
+        },
+        subscribe: {
+          description: '订阅游戏新闻与更新公告',
+          usage: '用法：steam news subscribe <游戏名|appid>',
+          not_found: '找不到游戏 {0}。',
+          already: '本群已经订阅了 {0} 的新闻。',
+          success: '已订阅 {0} 的新闻与更新公告。',
+          error: '发生错误。',
+          messages: {
+            usage: '用法：steam news subscribe <游戏名|appid>',
+            not_found: '找不到游戏 {0}。',
+            already: '本群已经订阅了 {0} 的新闻。',
+            success: '已订阅 {0} 的新闻与更新公告。',
+            error: '发生错误。',
+          },
+        },
+        unsubscribe: {
+          description: '取消订阅游戏新闻',
+          usage: '用法：steam news unsubscribe <游戏名|appid>',
+          not_subscribed: '本群没有订阅 {0} 的新闻。',
+          success: '已取消订阅 {0} 的新闻。',
+          error: '发生错误。',
+          messages: {
+            usage: '用法：steam news unsubscribe <游戏名|appid>',
+            not_subscribed: '本群没有订阅 {0} 的新闻。',
+            success: '已取消订阅 {0} 的新闻。',
+            error: '发生错误。',
+          },
+        },
+      },
+      report: {
+        description: '设置本群的定时周报',
+        usage: '用法：steam report <cron 表达式>，例如 steam report 0 9 * * 1 表示每周一 9:00；-o 关闭，-n 立即生成',
+        current: '本群的周报时间为 {0}（{1}）。',
+        not_set: '本群还没有设置定时周报。',
+        invalid: '无效的 cron 表达式：{0}，格式为“分 时 日 月 周”。',
+        success: '已设置周报时间为 {0}（{1}）。',
+        disabled: '已关闭本群的定时周报。',
+        no_data: '最近 7 天没有游戏记录。',
+        error: '发生错误。',
+        messages: {
+          usage: '用法：steam report <cron 表达式>，例如 steam report 0 9 * * 1 表示每周一 9:00；-o 关闭，-n 立即生成',
+          current: '本群的周报时间为 {0}（{1}）。',
+          not_set: '本群还没有设置定时周报。',
+          invalid: '无效的 cron 表达式：{0}，格式为“分 时 日 月 周”。',
+          success: '已设置周报时间为 {0}（{1}）。',
+          disabled: '已关闭本群的定时周报。',
+          no_data: '最近 7 天没有游戏记录。',
+          error: '发生错误。',
+        },
+      },
     },
   },
 }
-
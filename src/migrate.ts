@@ -0,0 +1,216 @@
+import { Context } from 'koishi'
+import { existsSync, readFileSync } from 'fs'
+import { join } from 'path'
+import { SteamBind, SteamChannel, SteamOptin } from './database'
+
+export type ImportMode = 'merge' | 'replace'
+
+export interface ExportData {
+  version: number
+  exportedAt: string
+  binds: Omit<SteamBind, 'id'>[]
+  /** 全局绑定通过 opt-in 记录在各群生效 */
+  optins: Omit<SteamOptin, 'id'>[]
+  channels: SteamChannel[]
+}
+
+export interface ImportSummary {
+  binds: { added: number; updated: number; skipped: number }
+  optins: { added: number; skipped: number }
+  channels: { added: number; updated: number; skipped: number }
+  /** replace 模式下被清除的原有记录数 */
+  removed: { binds: number; optins: number; channels: number }
+}
+
+const EXPORT_VERSION = 1
+
+const CHANNEL_FIELDS: (keyof SteamChannel)[] = [
+  'id', 'enable', 'name', 'avatar', 'platform', 'assignee', 'stopBroadcast', 'requireVerify', 'language',
+  'startBroadcastType', 'enablePushDelay', 'replaceWallpaperEmoji', 'rejoinDebounce', 'quietHours', 'timezone',
+  'gameBlacklist', 'gameWhitelist', 'achievementBroadcast', 'achievementRarity', 'theme', 'failCount', 'lastError',
+  'reportSchedule', 'reportSentAt',
+]
+
+const BIND_FIELDS: (keyof SteamBind)[] = ['userId', 'channelId', 'steamId', 'nickname', 'label', 'isDefault', 'verified', 'verifyCode']
+
+export async function exportData(ctx: Context): Promise<ExportData> {
+  const binds = await ctx.database.get('steam_bind', {})
+  const optins = await ctx.database.get('steam_optin', {})
+  const channels = await ctx.database.get('steam_channel', {})
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    binds: binds.map(({ id, ...bind }) => bind),
+    optins: optins.map(({ id, ...optin }) => optin),
+    channels,
+  }
+}
+
+/** 校验并规范化导入数据，任何一条记录格式不正确都会抛出错误，避免 replace 模式清空数据后才发现文件有问题 */
+export function parseExportData(raw: any): ExportData {
+  if (!raw || !Array.isArray(raw.binds) || !Array.isArray(raw.channels)) throw new Error('Invalid export file: binds and channels are required')
+  if (raw.version > EXPORT_VERSION) throw new Error(`Unsupported export version ${raw.version}`)
+  if (raw.optins !== undefined && !Array.isArray(raw.optins)) throw new Error('Invalid export file: optins must be an array')
+  // 只保留已知字段，避免把文件中的未知字段写入数据库
+  const binds = raw.binds.map((b: any, index: number) => {
+    if (!b?.userId || !b?.steamId) throw new Error(`Invalid bind at index ${index}: userId and steamId are required`)
+    const bind = Object.fromEntries(BIND_FIELDS.filter(key => key in b).map(key => [key, b[key]])) as Omit<SteamBind, 'id'>
+    return { ...bind, userId: String(b.userId), channelId: String(b.channelId ?? ''), steamId: String(b.steamId) }
+  })
+  const optins = (raw.optins || []).map((o: any, index: number) => {
+    if (!o?.userId || !o?.channelId) throw new Error(`Invalid optin at index ${index}: userId and channelId are required`)
+    return { userId: String(o.userId), channelId: String(o.channelId) }
+  })
+  const channels = raw.channels.map((c: any, index: number) => {
+    if (!c?.id) throw new Error(`Invalid channel at index ${index}: id is required`)
+    const channel = Object.fromEntries(CHANNEL_FIELDS.filter(key => key in c).map(key => [key, c[key]])) as SteamChannel
+    channel.id = String(c.id)
+    if (c.reportSentAt) channel.reportSentAt = new Date(c.reportSentAt)
+    return channel
+  })
+  return { version: raw.version || EXPORT_VERSION, exportedAt: raw.exportedAt || '', binds, optins, channels }
+}
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === ''
+}
+
+function compact<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T
+}
+
+/**
+ * merge 模式只补充缺失的记录和字段，不覆盖已有设置；replace 模式先清空绑定、opt-in 与群数据再导入。
+ * dryRun 时只统计将要发生的变更，否则整个导入在一个事务中完成，中途出错不会留下清空后的数据库。
+ */
+export async function importData(ctx: Context, data: ExportData, mode: ImportMode, dryRun: boolean): Promise<ImportSummary> {
+  if (dryRun) return applyImport(ctx.database, data, mode, dryRun)
+  return ctx.database.transact(database => applyImport(database, data, mode, dryRun))
+}
+
+async function applyImport(database: Context['database'], data: ExportData, mode: ImportMode, dryRun: boolean): Promise<ImportSummary> {
+  const summary: ImportSummary = {
+    binds: { added: 0, updated: 0, skipped: 0 },
+    optins: { added: 0, skipped: 0 },
+    channels: { added: 0, updated: 0, skipped: 0 },
+    removed: { binds: 0, optins: 0, channels: 0 },
+  }
+
+  let binds = await database.get('steam_bind', {})
+  let optins = await database.get('steam_optin', {})
+  let channels = await database.get('steam_channel', {})
+  if (mode === 'replace') {
+    summary.removed = { binds: binds.length, optins: optins.length, channels: channels.length }
+    if (!dryRun) {
+      await database.remove('steam_bind', {})
+      await database.remove('steam_optin', {})
+      await database.remove('steam_channel', {})
+    }
+    binds = []
+    optins = []
+    channels = []
+  }
+
+  for (const channel of data.channels) {
+    const existing = channels.find(c => c.id === channel.id)
+    if (!existing) {
+      summary.channels.added++
+      channels.push(channel)
+      if (!dryRun) await database.upsert('steam_channel', [compact(channel)])
+      continue
+    }
+    const update: Partial<SteamChannel> = {}
+    for (const [key, value] of Object.entries(channel)) {
+      if (!isEmpty(value) && isEmpty(existing[key as keyof SteamChannel])) update[key as keyof SteamChannel] = value as never
+    }
+    if (!Object.keys(update).length) {
+      summary.channels.skipped++
+      continue
+    }
+    summary.channels.updated++
+    Object.assign(existing, update)
+    if (!dryRun) await database.set('steam_channel', channel.id, update)
+  }
+
+  for (const bind of data.binds) {
+    const existing = binds.find(b => b.userId === bind.userId && b.channelId === bind.channelId && b.steamId === bind.steamId)
+    if (!existing) {
+      // 用户在该群已有帐号时保留原来的默认帐号
+      const hasBinds = binds.some(b => b.userId === bind.userId && b.channelId === bind.channelId)
+      const record = { ...bind, isDefault: hasBinds ? false : bind.isDefault ?? true }
+      summary.binds.added++
+      binds.push({ id: 0, ...record })
+      if (!dryRun) await database.create('steam_bind', compact(record))
+      continue
+    }
+    const update: Partial<SteamBind> = {}
+    if (bind.nickname && !existing.nickname) update.nickname = bind.nickname
+    if (bind.label && !existing.label) update.label = bind.label
+    if (bind.verified && !existing.verified) update.verified = true
+    if (!Object.keys(update).length) {
+      summary.binds.skipped++
+      continue
+    }
+    summary.binds.updated++
+    Object.assign(existing, update)
+    if (!dryRun) await database.set('steam_bind', { id: existing.id }, update)
+  }
+
+  for (const optin of data.optins) {
+    if (optins.some(o => o.userId === optin.userId && o.channelId === optin.channelId)) {
+      summary.optins.skipped++
+      continue
+    }
+    summary.optins.added++
+    optins.push({ id: 0, ...optin })
+    if (!dryRun) await database.create('steam_optin', optin)
+  }
+
+  return summary
+}
+
+function readJson(path: string) {
+  return JSON.parse(readFileSync(path, 'utf8'))
+}
+
+/**
+ * 读取 nonebot-plugin-steam-info 的数据目录：
+ * bind_data.json 为 { parent_id: [{ user_id, steam_id, nickname }] }，
+ * parent_data.json 为 { parent_id: name }，群头像保存为 {parent_id}.png，
+ * disable_parent_data.json 为停用播报的 parent_id 列表。
+ */
+export function readNonebotData(dir: string, platform: string): ExportData {
+  const bindPath = join(dir, 'bind_data.json')
+  if (!existsSync(bindPath)) throw new Error(`bind_data.json not found in ${dir}`)
+  const bindData: Record<string, { user_id: string | number; steam_id: string | number; nickname?: string | null }[]> = readJson(bindPath)
+  const parentData: Record<string, string> = existsSync(join(dir, 'parent_data.json')) ? readJson(join(dir, 'parent_data.json')) : {}
+  const disabled: string[] = existsSync(join(dir, 'disable_parent_data.json')) ? readJson(join(dir, 'disable_parent_data.json')).map(String) : []
+
+  const binds: Omit<SteamBind, 'id'>[] = []
+  for (const [parentId, users] of Object.entries(bindData)) {
+    for (const user of users || []) {
+      if (!user?.user_id || !user?.steam_id) continue
+      binds.push({
+        userId: String(user.user_id),
+        channelId: String(parentId),
+        steamId: String(user.steam_id),
+        nickname: user.nickname || undefined,
+        isDefault: !binds.some(b => b.userId === String(user.user_id) && b.channelId === String(parentId)),
+      })
+    }
+  }
+
+  const parentIds = new Set([...Object.keys(bindData), ...Object.keys(parentData), ...disabled])
+  const channels: SteamChannel[] = [...parentIds].map(id => {
+    const avatarPath = join(dir, `${id}.png`)
+    return {
+      id,
+      enable: !disabled.includes(id),
+      platform,
+      name: parentData[id] || undefined,
+      avatar: existsSync(avatarPath) ? readFileSync(avatarPath).toString('base64') : undefined,
+    }
+  })
+
+  return { version: EXPORT_VERSION, exportedAt: new Date().toISOString(), binds, optins: [], channels }
+}
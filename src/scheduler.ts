@@ -0,0 +1,75 @@
+export interface TickResult {
+  startedAt: number
+  duration: number
+  ok: boolean
+  error?: string
+}
+
+export interface SchedulerOptions {
+  /** 正常轮询间隔（毫秒） */
+  interval: number
+  /** 连续失败时的最大间隔（毫秒） */
+  maxInterval: number
+  /** 随机抖动比例，0.1 表示 ±10% */
+  jitter: number
+}
+
+export class PollScheduler {
+  lastResult?: TickResult
+  nextRunAt?: number
+  failures = 0
+  private running?: Promise<TickResult>
+  private timer?: NodeJS.Timeout
+  private stopped = true
+
+  constructor(private task: () => Promise<void>, private options: SchedulerOptions) { }
+
+  get busy() {
+    return !!this.running
+  }
+
+  start() {
+    this.stopped = false
+    this.schedule()
+  }
+
+  stop() {
+    this.stopped = true
+    this.nextRunAt = undefined
+    if (this.timer) clearTimeout(this.timer)
+  }
+
+  /** 立即执行一次；若上一次仍在进行则等待它完成，不会并发执行 */
+  trigger(): Promise<TickResult> {
+    if (this.running) return this.running
+    if (this.timer) clearTimeout(this.timer)
+    this.running = this.run().finally(() => {
+      this.running = undefined
+      this.schedule()
+    })
+    return this.running
+  }
+
+  private async run(): Promise<TickResult> {
+    const startedAt = Date.now()
+    try {
+      await this.task()
+      this.failures = 0
+      this.lastResult = { startedAt, duration: Date.now() - startedAt, ok: true }
+    } catch (e: any) {
+      this.failures++
+      this.lastResult = { startedAt, duration: Date.now() - startedAt, ok: false, error: e?.message || String(e) }
+    }
+    return this.lastResult
+  }
+
+  private schedule() {
+    if (this.stopped) return
+    if (this.timer) clearTimeout(this.timer)
+    const { interval, maxInterval, jitter } = this.options
+    const base = Math.min(interval * 2 ** this.failures, Math.max(interval, maxInterval))
+    const delay = Math.round(base * (1 + (Math.random() * 2 - 1) * jitter))
+    this.nextRunAt = Date.now() + delay
+    this.timer = setTimeout(() => this.trigger(), delay)
+  }
+}
@@ -1,11 +1,20 @@
 import { Context, Service, Logger } from 'koishi'
 import { Config } from './index'
+import { DateTime } from 'luxon'
+import { Language, getStoreLanguage, translate } from './utils'
+import { SteamApp, SteamLibrary, OwnedGame } from './database'
+import { KeyPool, maskKey, getErrorStatus } from './keys'
 import * as cheerio from 'cheerio'
 import * as crypto from 'crypto'
 
 const logger = new Logger('steam-info')
 const STEAM_ID_OFFSET = BigInt('76561197960265728')
 
+// key 被拒绝时返回的是 HTML 页面，接口自身的拒绝（如游戏没有统计数据）则是 JSON
+function isJsonBody(data: any) {
+  return !!data && typeof data === 'object'
+}
+
 export interface PlayerSummary {
   steamid: string
   personaname: string
@@ -14,8 +23,12 @@ export interface PlayerSummary {
   avatarmedium: string
   avatarfull: string
   personastate: number
+  communityvisibilitystate?: number
+  profilestate?: number
   gameextrainfo?: string
   gameid?: string
+  lobbysteamid?: string
+  gameserversteamid?: string
   lastlogoff?: number
 }
 
@@ -27,14 +40,19 @@ export interface SteamProfile {
   description: string
   recent_2_week_play_time: string
   game_data: GameData[]
+  level?: number
+  owned_games?: number
+  badge_count?: number
 }
 
 export interface GameData {
   game_name: string
   game_image: string | Buffer
   play_time: string
+  /** 最后运行日期，为空表示当前正在游戏 */
   last_played: string
-  achievements: Achievement[]
+  /** 仅抓取社区页面时提供 */
+  achievements?: Achievement[]
   completed_achievement_number?: number
   total_achievement_number?: number
 }
@@ -44,16 +62,64 @@ export interface Achievement {
   image: string | Buffer
 }
 
+export interface PriceOverview {
+  currency: string
+  initial: number
+  final: number
+  discount_percent: number
+  initial_formatted: string
+  final_formatted: string
+}
+
+export interface AppSearchResult {
+  appid: string
+  name: string
+}
+
+export interface NewsItem {
+  gid: string
+  appid: string
+  title: string
+  url: string
+  author: string
+  contents: string
+  feedlabel: string
+  date: number
+}
+
+export interface AchievementUnlock {
+  appid: string
+  apiname: string
+  name: string
+  description: string
+  icon: string
+  /** 全球解锁率（百分比） */
+  percent?: number
+  unlockedAt: number
+}
+
+interface AchievementSchema {
+  name: string
+  displayName: string
+  description?: string
+  icon: string
+}
+
 export class SteamService extends Service {
   private http: any
   private dispatcher: any
   private proxyFetch: any
-  private gameNameCache = new Map<string, string>()
+  private appCache = new Map<string, SteamApp>()
+  private achievementSchemaCache = new Map<string, Map<string, AchievementSchema>>()
+  private achievementRarityCache = new Map<string, { fetchedAt: number; percents: Map<string, number> }>()
+  private profileScrapeCache = new Map<string, { fetchedAt: number; background: string; description: string }>()
   private readonly useSpeed: boolean
+  readonly keys: KeyPool
 
   constructor(ctx: Context, public config: Config) {
     super(ctx, 'steam', true)
     this.useSpeed = !!(config.enableSteamSpeed && config.steamSpeedDomain && config.steamSpeedKey)
+    this.keys = new KeyPool(config.steamApiKey)
 
     this.http = ctx.http.extend({
       headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' }
@@ -122,7 +188,11 @@ export class SteamService extends Service {
     }
 
     const response = await this.proxyFetch(url, fetchOptions)
-    if (!response.ok) throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    if (!response.ok) {
+      const error: any = new Error(`HTTP ${response.status}: ${response.statusText}`)
+      error.response = { status: response.status, data: await response.json().catch((): undefined => undefined) }
+      throw error
+    }
 
     if (options?.responseType === 'text') return await response.text() as T
     if (options?.responseType === 'arraybuffer') return await response.arrayBuffer() as unknown as T
@@ -132,34 +202,253 @@ export class SteamService extends Service {
     return await response.json() as T
   }
 
-  async getLocalizedGameName(inputAppid: string | number): Promise<string> {
+  /**
+   * 依次使用 key 池中的 key 请求 Steam Web API，直到拿到 accept 认可的响应。
+   * 4xx 响应体被 answered 认可时视为接口的正常回答（如资料私密），不计入 key 的失败
+   */
+  private async requestApi<T = any>(path: string, params: Record<string, string>, accept: (data: any) => boolean, answered: (data: any) => boolean = () => false): Promise<T | undefined> {
+    const query = new URLSearchParams(params).toString()
+    for (const state of this.keys.order()) {
+      const startTime = Date.now()
+      try {
+        const data = await this.proxyGet(`http://api.steampowered.com${path}?key=${state.key}&${query}`, { timeout: this.config.requestTimeout })
+        if (accept(data)) {
+          this.keys.reportSuccess(state, Date.now() - startTime)
+          return data
+        }
+        this.keys.reportFailure(state, Date.now() - startTime, new Error('Unexpected response'))
+      } catch (e: any) {
+        // key 失效时 Steam 同样返回 403，只能通过响应体区分
+        const status = getErrorStatus(e)
+        if (status && status >= 400 && status < 500 && answered(e?.response?.data)) {
+          this.keys.reportSuccess(state, Date.now() - startTime)
+          return
+        }
+        this.keys.reportFailure(state, Date.now() - startTime, e)
+        logger.warn(`${path}: API key ${maskKey(state.key)} failed: ${e.message}`)
+      }
+    }
+  }
+
+  async getLocalizedGameName(appid: string | number, lang: Language = this.config.language): Promise<string> {
+    const app = await this.getAppInfo(appid, lang)
+    return app?.name || ''
+  }
+
+  /** 获取玩家的游戏库，优先使用数据库缓存；资料私密或请求失败时返回 undefined */
+  async getOwnedGames(steamId: string): Promise<OwnedGame[] | undefined> {
+    let cached: SteamLibrary | undefined
+    try {
+      [cached] = await this.ctx.database.get('steam_library', { steamId })
+    } catch (e: any) {
+      logger.warn(`getOwnedGames: failed to read cache for ${steamId}: ${e.message}`)
+    }
+    if (cached && Date.now() - cached.fetchedAt.getTime() < this.config.libraryCacheTTL * 60 * 60 * 1000) return cached.games
+
+    const data = await this.requestApi('/IPlayerService/GetOwnedGames/v0001/', { steamid: steamId, include_appinfo: '1', include_played_free_games: '1' }, data => !!data?.response)
+    if (!data?.response?.games) return cached?.games
+
+    const games: OwnedGame[] = data.response.games.map((g: any) => ({ appid: g.appid, name: g.name, playtime: g.playtime_forever || 0 }))
+    await this.ctx.database.upsert('steam_library', [{ steamId, games, fetchedAt: new Date() }])
+      .catch((e: any) => logger.warn(`getOwnedGames: failed to save ${steamId}: ${e.message}`))
+    return games
+  }
+
+  async getAppInfo(inputAppid: string | number, lang: Language = this.config.language): Promise<SteamApp | undefined> {
     const appid = String(inputAppid)
-    if (this.gameNameCache.has(appid)) return this.gameNameCache.get(appid)!
+    const storeLanguage = getStoreLanguage(lang)
+    const cacheKey = `${appid}:${storeLanguage}`
+    const ttl = this.config.appCacheTTL * 24 * 60 * 60 * 1000
+    const isFresh = (app: SteamApp) => Date.now() - app.fetchedAt.getTime() < ttl
+
+    let cached = this.appCache.get(cacheKey)
+    if (!cached) {
+      try {
+        [cached] = await this.ctx.database.get('steam_app', { appid, language: storeLanguage })
+        if (cached) this.appCache.set(cacheKey, cached)
+      } catch (e: any) {
+        logger.warn(`getAppInfo: failed to read cache for ${appid}: ${e.message}`)
+      }
+    }
+    if (cached && isFresh(cached)) return cached
 
     for (let attempt = 1; attempt <= 3; attempt++) {
       try {
         const data = this.useSpeed
-          ? await this.speedGet(`/api/appdetails?appids=${appid}&l=schinese`)
-          : await this.proxyGet(`https://store.steampowered.com/api/appdetails?appids=${appid}&l=schinese`, { timeout: this.config.requestTimeout })
+          ? await this.speedGet(`/api/appdetails?appids=${appid}&l=${storeLanguage}`)
+          : await this.proxyGet(`https://store.steampowered.com/api/appdetails?appids=${appid}&l=${storeLanguage}`, { timeout: this.config.requestTimeout })
 
         if (data?.[appid]?.success) {
-          const name = data[appid].data.name
-          this.gameNameCache.set(appid, name)
-          logger.info(`getLocalizedGameName: ${appid} = ${name}`)
-          return name
+          const details = data[appid].data
+          const app: SteamApp = {
+            appid,
+            language: storeLanguage,
+            name: details.name,
+            type: details.type,
+            headerImage: details.header_image,
+            capsuleImage: details.capsule_imagev5 || details.capsule_image,
+            genres: (details.genres || []).map((g: any) => g.description),
+            fetchedAt: new Date(),
+          }
+          this.appCache.set(cacheKey, app)
+          await this.ctx.database.upsert('steam_app', [app]).catch((e: any) => logger.warn(`getAppInfo: failed to save ${appid}: ${e.message}`))
+          logger.info(`getAppInfo: ${appid} = ${app.name}`)
+          return app
         }
         break
       } catch {
         if (attempt < 3) await new Promise(res => setTimeout(res, attempt * 1000))
       }
     }
-    return ''
+    // 请求失败时继续使用过期的缓存
+    return cached
+  }
+
+  /** 获取游戏在指定地区的价格；免费或未在该地区发售时返回 null，请求失败时返回 undefined */
+  async getPriceOverview(inputAppid: string | number, region: string = this.config.priceRegion): Promise<PriceOverview | null | undefined> {
+    const appid = String(inputAppid)
+    const path = `/api/appdetails?appids=${appid}&cc=${region}&filters=price_overview`
+    try {
+      const data = this.useSpeed
+        ? await this.speedGet(path)
+        : await this.proxyGet(`https://store.steampowered.com${path}`, { timeout: this.config.requestTimeout })
+      if (!data?.[appid]?.success) return null
+      // 带 filters 时无价格的游戏返回的是空数组
+      return data[appid].data?.price_overview || null
+    } catch (e: any) {
+      logger.warn(`getPriceOverview: ${appid} failed: ${e.message}`)
+    }
+  }
+
+  async searchApps(term: string, lang: Language = this.config.language): Promise<AppSearchResult[]> {
+    const path = `/api/storesearch/?term=${encodeURIComponent(term)}&l=${getStoreLanguage(lang)}&cc=${this.config.priceRegion}`
+    try {
+      const data = this.useSpeed
+        ? await this.speedGet(path)
+        : await this.proxyGet(`https://store.steampowered.com${path}`, { timeout: this.config.requestTimeout })
+      return (data?.items || []).map((item: any) => ({ appid: String(item.id), name: item.name }))
+    } catch (e: any) {
+      logger.warn(`searchApps: ${term} failed: ${e.message}`)
+      return []
+    }
+  }
+
+  /** 获取游戏最新的新闻与更新公告，按发布时间从新到旧排列，内容已去除 BBCode 与 HTML 标签 */
+  async getNewsForApp(inputAppid: string | number, count = 5): Promise<NewsItem[] | undefined> {
+    const appid = String(inputAppid)
+    const data = await this.requestApi('/ISteamNews/GetNewsForApp/v0002/', { appid, count: String(count), maxlength: '300' }, data => !!data?.appnews, isJsonBody)
+    if (!data?.appnews) return
+    return (data.appnews.newsitems || []).map((item: any) => ({
+      gid: String(item.gid),
+      appid,
+      title: item.title,
+      url: item.url,
+      author: item.author || '',
+      contents: String(item.contents || '').replace(/\[\/?[^\]]+\]/g, '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim(),
+      feedlabel: item.feedlabel || '',
+      date: item.date * 1000,
+    }))
+  }
+
+  /** 获取玩家在某游戏中已解锁的成就，附带名称、图标与全球解锁率；资料私密或游戏无成就时返回空数组 */
+  async getPlayerAchievements(steamId: string, inputAppid: string | number, lang: Language = this.config.language): Promise<AchievementUnlock[]> {
+    const appid = String(inputAppid)
+    const data = await this.requestApi('/ISteamUserStats/GetPlayerAchievements/v0001/', { steamid: steamId, appid }, data => !!data?.playerstats, data => !!data?.playerstats?.error)
+    const achieved = (data?.playerstats?.achievements || []).filter((a: any) => a.achieved)
+    if (!achieved.length) return []
+
+    const [schema, percents] = await Promise.all([this.getAchievementSchema(appid, lang), this.getAchievementRarity(appid)])
+    return achieved.map((a: any) => {
+      const info = schema.get(a.apiname)
+      return {
+        appid,
+        apiname: a.apiname,
+        name: info?.displayName || a.apiname,
+        description: info?.description || '',
+        icon: info?.icon || '',
+        percent: percents.get(a.apiname),
+        unlockedAt: a.unlocktime * 1000,
+      }
+    })
+  }
+
+  private async getAchievementSchema(appid: string, lang: Language): Promise<Map<string, AchievementSchema>> {
+    const cacheKey = `${appid}:${getStoreLanguage(lang)}`
+    const cached = this.achievementSchemaCache.get(cacheKey)
+    if (cached) return cached
+
+    const data = await this.requestApi('/ISteamUserStats/GetSchemaForGame/v2/', { appid, l: getStoreLanguage(lang) }, data => !!data?.game, isJsonBody)
+    const schema = new Map<string, AchievementSchema>((data?.game?.availableGameStats?.achievements || []).map((a: AchievementSchema) => [a.name, a]))
+    if (data) this.achievementSchemaCache.set(cacheKey, schema)
+    return schema
+  }
+
+  private async getAchievementRarity(appid: string): Promise<Map<string, number>> {
+    const cached = this.achievementRarityCache.get(appid)
+    if (cached && Date.now() - cached.fetchedAt < 24 * 60 * 60 * 1000) return cached.percents
+
+    try {
+      const url = `http://api.steampowered.com/ISteamUserStats/GetGlobalAchievementPercentagesForApp/v0002/?gameid=${appid}`
+      const data = await this.proxyGet(url, { timeout: this.config.requestTimeout })
+      const percents = new Map<string, number>((data?.achievementpercentages?.achievements || []).map((a: any) => [a.name, Number(a.percent)]))
+      this.achievementRarityCache.set(appid, { fetchedAt: Date.now(), percents })
+      return percents
+    } catch (e: any) {
+      logger.warn(`getAchievementRarity: ${appid} failed: ${e.message}`)
+      return cached?.percents || new Map()
+    }
   }
 
-  async getSteamId(input: string): Promise<string | null> {
-    if (!/^\d+$/.test(input)) return null
-    const id = BigInt(input)
-    return id < STEAM_ID_OFFSET ? (id + STEAM_ID_OFFSET).toString() : input
+  /** 无法识别或查无此人时返回 null，Steam API 不可用导致无法解析自定义 URL 时返回 undefined */
+  async getSteamId(input: string): Promise<string | null | undefined> {
+    const value = input.trim().replace(/\/+$/, '')
+
+    const urlMatch = value.match(/steamcommunity\.com\/(profiles|id)\/([^/?#\s]+)/i)
+    if (urlMatch) {
+      return urlMatch[1].toLowerCase() === 'profiles' ? this.getSteamId(urlMatch[2]) : this.resolveVanityUrl(urlMatch[2])
+    }
+
+    const legacyMatch = value.match(/^STEAM_[0-5]:([01]):(\d+)$/i)
+    if (legacyMatch) return (STEAM_ID_OFFSET + BigInt(legacyMatch[2]) * BigInt(2) + BigInt(legacyMatch[1])).toString()
+
+    const steam3Match = value.match(/^\[?U:1:(\d+)\]?$/i)
+    if (steam3Match) return (STEAM_ID_OFFSET + BigInt(steam3Match[1])).toString()
+
+    if (/^\d+$/.test(value)) {
+      const id = BigInt(value)
+      return id < STEAM_ID_OFFSET ? (id + STEAM_ID_OFFSET).toString() : value
+    }
+
+    if (/^[\w-]{2,32}$/.test(value)) return this.resolveVanityUrl(value)
+    return null
+  }
+
+  private async resolveVanityUrl(vanity: string): Promise<string | null | undefined> {
+    const data = await this.requestApi('/ISteamUser/ResolveVanityURL/v0001/', { vanityurl: vanity }, data => !!data?.response)
+    if (data?.response?.success === 1) return data.response.steamid
+    const answered = !!data
+
+    if (!answered && this.useSpeed) {
+      try {
+        const xml = await this.speedGet<string>(`/id/${encodeURIComponent(vanity)}/?xml=1`)
+        const match = String(xml).match(/<steamID64>(\d+)<\/steamID64>/)
+        if (match) return match[1]
+      } catch { }
+    }
+
+    if (!answered) {
+      logger.warn(`resolveVanityUrl: ${vanity} could not be resolved, Steam API unavailable`)
+      return
+    }
+    logger.info(`resolveVanityUrl: ${vanity} not found`)
+    return null
+  }
+
+  /** 查无此人时返回 null，Steam API 不可用时返回 undefined */
+  async getPlayerSummary(steamId: string): Promise<PlayerSummary | null | undefined> {
+    const data = await this.requestApi('/ISteamUser/GetPlayerSummaries/v0002/', { steamids: steamId }, data => !!data?.response?.players)
+    if (!data) return
+    return data.response.players[0] || null
   }
 
   async getPlayerSummaries(steamIds: string[]): Promise<PlayerSummary[]> {
@@ -171,22 +460,10 @@ export class SteamService extends Service {
 
     for (let i = 0; i < steamIds.length; i += 100) {
       const chunk = steamIds.slice(i, i + 100)
-      let success = false
+      const data = await this.requestApi('/ISteamUser/GetPlayerSummaries/v0002/', { steamids: chunk.join(',') }, data => !!data?.response?.players)
+      if (data) players.push(...data.response.players)
 
-      for (let keyIdx = 0; keyIdx < this.config.steamApiKey.length && !success; keyIdx++) {
-        try {
-          const url = `http://api.steampowered.com/ISteamUser/GetPlayerSummaries/v0002/?key=${this.config.steamApiKey[keyIdx]}&steamids=${chunk.join(',')}`
-          const data = await this.proxyGet(url)
-          if (data?.response?.players) {
-            players.push(...data.response.players)
-            success = true
-          }
-        } catch (e: any) {
-          logger.warn(`API key #${keyIdx + 1} failed: ${e.message}`)
-        }
-      }
-
-      if (!success && this.config.enableIpCheck) {
+      if (!data && this.config.enableIpCheck) {
         try {
           const ip = await this.proxyGet('http://4.ipw.cn', { responseType: 'text' })
           const parts = String(ip).trim().split('.')
@@ -199,9 +476,72 @@ export class SteamService extends Service {
     return players
   }
 
-  async getUserData(steamId: string): Promise<SteamProfile> {
+  /**
+   * 通过 Web API 组装资料。背景优先取自 GetProfileItemsEquipped，简介 API 不提供，
+   * 只对公开资料抓取社区页面补全，结果缓存一小时，抓取失败时留空。账户不存在或 API 不可用时返回 undefined
+   */
+  async getProfile(steamId: string, lang: Language = this.config.language): Promise<SteamProfile | undefined> {
+    const [summary] = await this.getPlayerSummaries([steamId])
+    if (!summary) return
+
+    const params = { steamid: steamId }
+    const [recent, owned, level, badges, equipped] = await Promise.all([
+      this.requestApi('/IPlayerService/GetRecentlyPlayedGames/v0001/', { ...params, count: '5' }, data => !!data?.response),
+      this.requestApi('/IPlayerService/GetOwnedGames/v0001/', { ...params, include_appinfo: '1', include_played_free_games: '1' }, data => !!data?.response),
+      this.requestApi('/IPlayerService/GetSteamLevel/v1/', params, data => !!data?.response),
+      this.requestApi('/IPlayerService/GetBadges/v1/', params, data => !!data?.response),
+      this.requestApi('/IPlayerService/GetProfileItemsEquipped/v1/', params, data => !!data?.response),
+    ])
+    const backgroundPath: string | undefined = equipped?.response?.profile_background?.image_large
+    const scraped = summary.communityvisibilitystate === 3 ? await this.getScrapedProfile(steamId, lang) : undefined
+
+    const lastPlayed = new Map<number, number>((owned?.response?.games || []).map((g: any) => [g.appid, g.rtime_last_played]))
+    const recentGames: any[] = recent?.response?.games || []
+    const game_data: GameData[] = await Promise.all(recentGames.map(async (game): Promise<GameData> => {
+      const app = await this.getAppInfo(game.appid, lang).catch((): undefined => undefined)
+      const playing = String(summary.gameid) === String(game.appid)
+      const lastPlayedAt = lastPlayed.get(game.appid)
+      return {
+        game_name: app?.name || game.name,
+        game_image: app?.capsuleImage || `https://cdn.cloudflare.steamstatic.com/steam/apps/${game.appid}/capsule_184x69.jpg`,
+        play_time: (game.playtime_forever / 60).toFixed(1),
+        last_played: playing || !lastPlayedAt ? '' : DateTime.fromSeconds(lastPlayedAt).setLocale(lang).toLocaleString(DateTime.DATE_MED),
+      }
+    }))
+    const recentMinutes = recentGames.reduce((sum, game) => sum + (game.playtime_2weeks || 0), 0)
+
+    return {
+      steamid: steamId,
+      player_name: summary.personaname,
+      avatar: summary.avatarfull,
+      background: backgroundPath ? `https://cdn.cloudflare.steamstatic.com/steamcommunity/public/images/${backgroundPath}` : scraped?.background || '',
+      description: scraped?.description || '',
+      recent_2_week_play_time: recentGames.length ? translate(lang, 'drawer.recent_playtime', [(recentMinutes / 60).toFixed(1)]) : '',
+      game_data,
+      level: level?.response?.player_level ?? badges?.response?.player_level,
+      owned_games: owned?.response?.game_count,
+      badge_count: badges?.response?.badges?.length,
+    }
+  }
+
+  private async getScrapedProfile(steamId: string, lang: Language) {
+    const cacheKey = `${steamId}:${lang}`
+    const cached = this.profileScrapeCache.get(cacheKey)
+    if (cached && Date.now() - cached.fetchedAt < 60 * 60 * 1000) return cached
+    try {
+      const { background, description } = await this.getUserData(steamId, lang)
+      const result = { fetchedAt: Date.now(), background: String(background || ''), description }
+      this.profileScrapeCache.set(cacheKey, result)
+      return result
+    } catch (e: any) {
+      logger.warn(`getProfile: scraping ${steamId} failed: ${e.message}`)
+      return cached
+    }
+  }
+
+  async getUserData(steamId: string, lang: Language = this.config.language): Promise<SteamProfile> {
     const domain = this.useSpeed ? this.config.steamSpeedDomain!.replace(/\/$/, '') : 'https://steamcommunity.com'
-    const url = `${domain}/profiles/${steamId}`
+    const url = `${domain}/profiles/${steamId}/?l=${getStoreLanguage(lang)}`
 
     if (this.useSpeed && !domain.startsWith('http')) {
       throw new Error(`加速服务域名配置错误: "${domain}" - 必须以 https:// 或 http:// 开头`)
@@ -212,6 +552,15 @@ export class SteamService extends Service {
     let html = ''
     let page: any
 
+    // 未安装 puppeteer 时直接请求页面 HTML
+    if (!this.ctx.puppeteer) {
+      html = this.useSpeed
+        ? await this.speedGet<string>(`/profiles/${steamId}/?l=${getStoreLanguage(lang)}`)
+        : await this.proxyGet<string>(url, { timeout: this.config.requestTimeout, responseType: 'text' })
+      if (!html) throw new Error('无法获取 Steam 资料，账户不存在或为私密')
+      return this.parseProfile(String(html), steamId)
+    }
+
     try {
       page = await this.ctx.puppeteer.page()
 
@@ -277,7 +626,7 @@ export class SteamService extends Service {
     const loadFn = typeof cheerio.load === 'function' ? cheerio.load : (cheerio as any).default?.load
     const $ = loadFn(html)
 
-    const player_name = $('.actual_persona_name').text().trim() || $('title').text().replace('Steam 社区 :: ', '')
+    const player_name = $('.actual_persona_name').text().trim() || $('title').text().replace(/^.*?::\s*/, '')
     const description = $('.profile_summary').text().trim().replace(/\t/g, '')
 
     let background = ''
@@ -287,9 +636,9 @@ export class SteamService extends Service {
     const game_data: GameData[] = []
     $('.recent_game').each((_: number, el: any) => {
       const $el = $(el)
-      const details = $el.find('.game_info_details').text()
-      const playTimeMatch = details.match(/总时数\s*([\d\.]+)\s*小时/)
-      const lastPlayedMatch = details.match(/最后运行日期：(.*?) 日/)
+      const details = $el.find('.game_info_details').text().replace(/\s+/g, ' ').trim()
+      const playTimeMatch = details.match(/([\d.,]+)\s*(?:小时|小時|hrs?\b)/i)
+      const lastPlayedMatch = details.match(/(?:最后运行日期|最後執行日期|last played on)[：:\s]*(.+)$/i)
 
       const achievements: Achievement[] = []
       $el.find('.game_info_achievement:not(.plus_more)').each((__: number, achEl: any) => {
@@ -303,8 +652,8 @@ export class SteamService extends Service {
       game_data.push({
         game_name: $el.find('.game_name').text().trim(),
         game_image: $el.find('.game_capsule').attr('src') || '',
-        play_time: playTimeMatch ? playTimeMatch[1] : '',
-        last_played: lastPlayedMatch ? `最后运行日期：${lastPlayedMatch[1]} 日` : '当前正在游戏',
+        play_time: playTimeMatch ? playTimeMatch[1].replace(/,/g, '') : '',
+        last_played: lastPlayedMatch ? lastPlayedMatch[1].trim() : '',
         achievements,
         completed_achievement_number: summary.length === 2 ? parseInt(summary[0]) : 0,
         total_achievement_number: summary.length === 2 ? parseInt(summary[1]) : 0
@@ -0,0 +1,52 @@
+export const THEMES = ['dark', 'light', 'compact'] as const
+export type Theme = typeof THEMES[number]
+
+const palettes: Record<'dark' | 'light', Record<string, string>> = {
+  dark: {
+    'bg': '#1e2024',
+    'bg-alt': '#2b2e34',
+    'bar': '#434953',
+    'hover': '#3d4450',
+    'fg': '#fff',
+    'text': '#c5d6d4',
+    'text-secondary': '#b7ccd5',
+    'muted': '#969696',
+    'name': '#e3ffc2',
+    'game': '#91c257',
+    'online': '#6dcff6',
+    'online-muted': '#4c91ac',
+    'offline': '#656565',
+  },
+  light: {
+    'bg': '#f4f6f8',
+    'bg-alt': '#e2e7ed',
+    'bar': '#d3dae2',
+    'hover': '#e8ecf1',
+    'fg': '#1b2838',
+    'text': '#2f3b47',
+    'text-secondary': '#44535f',
+    'muted': '#6b7785',
+    'name': '#3b6b12',
+    'game': '#4f8a17',
+    'online': '#1a7fb5',
+    'online-muted': '#3a7fa0',
+    'offline': '#9aa3ad',
+  },
+}
+
+// 紧凑主题沿用深色配色，只收紧间距
+const compactCss = `
+  .container { padding: 8px 10px; height: auto; }
+  .header { height: auto; padding: 10px 14px; }
+  .search-bar, .section-title { height: 34px; font-size: 16px; }
+  .list-container { padding: 4px 0; }
+  .friend-item, .rank-item { height: auto; min-height: 0; padding-top: 3px; padding-bottom: 3px; }
+  .group-title { margin: 6px 14px; font-size: 18px; }
+`
+
+/** 主题样式插入到模板自身样式之后，通过 CSS 变量覆盖配色 */
+export function getThemeCss(theme: Theme): string {
+  const palette = palettes[theme === 'light' ? 'light' : 'dark']
+  const variables = Object.entries(palette).map(([key, value]) => `--${key}: ${value};`).join(' ')
+  return `:root { ${variables} }${theme === 'compact' ? compactCss : ''}`
+}
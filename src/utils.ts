@@ -0,0 +1,61 @@
+import { SteamBind } from './database'
+import { PlayerSummary } from './service'
+import zhCN from './locales/zh-CN'
+import enUS from './locales/en-US'
+
+export const WALLPAPER_ENGINE_APPID = '431960'
+
+export interface GameAlias {
+  appid: string
+  name?: string
+  verb?: string
+  emoji?: string
+}
+
+export const LANGUAGES = ['zh-CN', 'en-US'] as const
+export type Language = typeof LANGUAGES[number]
+
+const dictionaries: Record<Language, any> = { 'zh-CN': zhCN['steam-info'], 'en-US': enUS['steam-info'] }
+const storeLanguages: Record<Language, string> = { 'zh-CN': 'schinese', 'en-US': 'english' }
+
+export function translate(lang: Language, path: string, params: (string | number)[] = []): string {
+  const lookup = (dict: any) => path.split('.').reduce((node, key) => node?.[key], dict)
+  const value = lookup(dictionaries[lang]) ?? lookup(dictionaries['zh-CN'])
+  if (typeof value !== 'string') return path
+  return value.replace(/\{(\d+)\}/g, (_, index) => String(params[Number(index)] ?? ''))
+}
+
+export function getStoreLanguage(lang: Language): string {
+  return storeLanguages[lang] || storeLanguages['zh-CN']
+}
+
+export function formatDuration(ms: number, lang: Language = 'zh-CN'): string {
+  const minutes = Math.max(0, Math.round(ms / 60000))
+  const hours = Math.floor(minutes / 60)
+  if (!hours) return translate(lang, 'duration.minutes', [minutes])
+  return minutes % 60
+    ? translate(lang, 'duration.hours_minutes', [hours, minutes % 60])
+    : translate(lang, 'duration.hours', [hours])
+}
+
+export function getDisplayName(bind: SteamBind | undefined, player: PlayerSummary, binds: SteamBind[]): string {
+  const name = bind?.nickname || player.personaname
+  if (!bind?.label) return name
+  const accountCount = new Set(binds.filter(b => b.userId === bind.userId).map(b => b.steamId)).size
+  return accountCount > 1 ? `${name} (${bind.label})` : name
+}
+
+export function getGameAliases(config: { gameAliases?: GameAlias[]; replaceWallpaperEmoji?: boolean }, lang: Language): GameAlias[] {
+  const aliases = [...config.gameAliases || []]
+  if (config.replaceWallpaperEmoji && !aliases.some(a => a.appid === WALLPAPER_ENGINE_APPID)) {
+    aliases.push({ appid: WALLPAPER_ENGINE_APPID, name: '(Wallpaper Engine)', verb: translate(lang, 'drawer.wallpaper_status') })
+  }
+  return aliases
+}
+
+export function applyGameAlias(aliases: GameAlias[], appid: string | number | undefined, gameName: string): { name: string; verb?: string } {
+  const alias = appid !== undefined && aliases.find(a => a.appid === String(appid))
+  if (!alias) return { name: gameName }
+  const name = alias.name || gameName
+  return { name: alias.emoji ? `${alias.emoji} ${name}` : name, verb: alias.verb }
+}